@@ -46,8 +46,25 @@ describe("RAZORPAY_ERROR_CODES", () => {
       "PENDING_UPDATE_CANCEL_FAILED",
       "SUBSCRIPTION_RESTORE_FAILED",
       "SUBSCRIPTION_NOT_PENDING_CANCEL",
+      "SUBSCRIPTION_ALREADY_RESTORED",
+      "INVALID_RESUME_DATE",
+      "PAUSE_DURATION_EXCEEDED",
+      "PAUSE_LIMIT_REACHED",
+      "PAYMENT_LINK_NOT_AVAILABLE",
+      "SUBSCRIPTION_PAST_DUE",
+      "USAGE_METRIC_NOT_FOUND",
       "TRIAL_ALREADY_USED",
       "SUBSCRIPTION_RENEW_FAILED",
+      "AUTHORIZE_ADMIN_REQUIRED",
+      "REFUND_CREATE_FAILED",
+      "WEBHOOK_HANDLER_FAILED",
+      "WEBHOOK_CALLBACK_FAILED",
+      "WEBHOOK_DEAD_LETTER_NOT_FOUND",
+      "WEBHOOK_SIGNATURE_MALFORMED",
+      "WEBHOOK_BODY_NOT_FOUND",
+      "WEBHOOK_INVALID_PAYLOAD",
+      "WEBHOOK_EVENT_EXPIRED",
+      "WEBHOOK_ACCOUNT_NOT_ALLOWED",
     ];
 
     for (const key of expectedKeys) {
@@ -55,8 +72,8 @@ describe("RAZORPAY_ERROR_CODES", () => {
     }
   });
 
-  it("has 40 error codes", () => {
-    expect(Object.keys(RAZORPAY_ERROR_CODES).length).toBe(40);
+  it("has 57 error codes", () => {
+    expect(Object.keys(RAZORPAY_ERROR_CODES).length).toBe(57);
   });
 
   it("all error codes are non-empty strings", () => {
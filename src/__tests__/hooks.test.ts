@@ -1,5 +1,14 @@
 import { describe, expect, it, vi } from "vitest";
 import {
+    onDisputeCreated,
+    onDisputeLost,
+    onInvoiceExpired,
+    onInvoicePaid,
+    onPaymentAuthorized,
+    onPaymentCaptured,
+    onPaymentFailed,
+    onRefundCreated,
+    onRefundProcessed,
     onSubscriptionActivated,
     onSubscriptionAuthenticated,
     onSubscriptionCancelled,
@@ -12,11 +21,17 @@ import {
     onSubscriptionUpdated,
 } from "../hooks";
 import type {
+    Payment,
+    RazorpayDisputeEntity,
+    RazorpayInvoiceEntity,
     RazorpayOptions,
+    RazorpayPaymentEntity,
+    RazorpayRefundEntity,
     RazorpaySubscriptionEntity,
     RazorpayWebhookEvent,
     Subscription,
 } from "../types";
+import { RazorpayCallbackError } from "../utils";
 
 // ─── Mock Factories ──────────────────────────────────────────────────────────
 
@@ -73,6 +88,144 @@ function makeRazorpaySub(
   };
 }
 
+function makeRazorpayPayment(
+  overrides: Partial<RazorpayPaymentEntity> = {},
+): RazorpayPaymentEntity {
+  return {
+    id: "pay_001",
+    entity: "payment",
+    amount: 49900,
+    currency: "INR",
+    status: "captured",
+    order_id: null,
+    invoice_id: "inv_001",
+    international: false,
+    method: "upi",
+    amount_refunded: 0,
+    refund_status: null,
+    captured: true,
+    description: null,
+    card_id: null,
+    bank: null,
+    wallet: null,
+    vpa: "user@upi",
+    email: "user@example.com",
+    contact: "+919999999999",
+    customer_id: "cust_001",
+    notes: {},
+    fee: 1000,
+    tax: 180,
+    error_code: null,
+    error_description: null,
+    created_at: 1700000000,
+    ...overrides,
+  };
+}
+
+function makeRazorpayInvoice(
+  overrides: Partial<RazorpayInvoiceEntity> = {},
+): RazorpayInvoiceEntity {
+  return {
+    id: "inv_001",
+    entity: "invoice",
+    type: "invoice",
+    invoice_number: "INV-001",
+    customer_id: "cust_001",
+    order_id: "order_001",
+    subscription_id: "sub_rzp_001",
+    payment_id: "pay_001",
+    status: "paid",
+    amount: 49900,
+    amount_paid: 49900,
+    amount_due: 0,
+    tax_amount: 7612,
+    currency: "INR",
+    description: null,
+    notes: {},
+    short_url: "https://rzp.io/i/abc",
+    billing_start: 1700000000,
+    billing_end: 1702592000,
+    issued_at: 1700000000,
+    paid_at: 1700000100,
+    cancelled_at: null,
+    expired_at: null,
+    date: 1700000000,
+    created_at: 1700000000,
+    ...overrides,
+  };
+}
+
+function makeRazorpayRefund(
+  overrides: Partial<RazorpayRefundEntity> = {},
+): RazorpayRefundEntity {
+  return {
+    id: "rfnd_001",
+    entity: "refund",
+    amount: 10000,
+    currency: "INR",
+    payment_id: "pay_001",
+    notes: {},
+    receipt: null,
+    status: "pending",
+    speed_requested: "normal",
+    speed_processed: null,
+    created_at: 1700000200,
+    ...overrides,
+  };
+}
+
+function makeRazorpayDispute(
+  overrides: Partial<RazorpayDisputeEntity> = {},
+): RazorpayDisputeEntity {
+  return {
+    id: "disp_001",
+    entity: "dispute",
+    payment_id: "pay_001",
+    amount: 49900,
+    currency: "INR",
+    amount_deducted: 0,
+    reason_code: "fraudulent",
+    reason_description: "Customer did not authorize the payment",
+    respond_by: 1700600000,
+    status: "open",
+    phase: "chargeback",
+    created_at: 1700000300,
+    ...overrides,
+  };
+}
+
+function makeDisputeEvent(
+  eventName: string,
+  razorpayDispute: RazorpayDisputeEntity,
+): RazorpayWebhookEvent {
+  return {
+    entity: "event",
+    account_id: "acc_001",
+    event: eventName,
+    contains: ["dispute"],
+    payload: {
+      dispute: { entity: razorpayDispute },
+    },
+    created_at: Date.now() / 1000,
+  };
+}
+
+function makePaymentEvent(
+  eventName: string,
+  razorpayPayment: RazorpayPaymentEntity,
+): RazorpayWebhookEvent {
+  return {
+    entity: "event",
+    account_id: "acc_001",
+    event: eventName,
+    contains: ["payment"],
+    payload: {
+      payment: { entity: razorpayPayment },
+    },
+    created_at: Date.now() / 1000,
+  };
+}
+
 function makeWebhookEvent(
   eventName: string,
   razorpaySub: RazorpaySubscriptionEntity,
@@ -100,6 +253,7 @@ function makeDbSubscription(
     razorpaySubscriptionId: "sub_rzp_001",
     razorpayPlanId: "plan_001",
     status: "active",
+    createdAt: new Date(),
     ...overrides,
   };
 }
@@ -477,6 +631,43 @@ describe("onSubscriptionUpdated", () => {
       }),
     );
   });
+
+  it("syncs the billing period and group of the new plan", async () => {
+    const adapter = makeMockAdapter();
+    const ctx = makeMockCtx(adapter);
+    adapter.findOne.mockResolvedValue(makeDbSubscription());
+    adapter.update.mockResolvedValue(makeDbSubscription());
+    const options = makeOptions({
+      subscription: {
+        enabled: true,
+        plans: [
+          {
+            planId: "plan_002",
+            annualPlanId: "plan_002_annual",
+            name: "Pro",
+            group: "main",
+          },
+        ],
+      },
+    });
+
+    const rzpSub = makeRazorpaySub({ plan_id: "plan_002_annual" });
+    await onSubscriptionUpdated(
+      ctx,
+      options,
+      makeWebhookEvent("subscription.updated", rzpSub),
+    );
+
+    expect(adapter.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: expect.objectContaining({
+          plan: "pro",
+          billingPeriod: "yearly",
+          groupId: "main",
+        }),
+      }),
+    );
+  });
 });
 
 // ─── onSubscriptionPaused ────────────────────────────────────────────────────
@@ -575,23 +766,613 @@ describe("onSubscriptionCancelled", () => {
   });
 });
 
+// ─── Payment Events ──────────────────────────────────────────────────────────
+
+describe("payment webhook handlers", () => {
+  it("creates a payment record linked to the customer's reference", async () => {
+    const adapter = makeMockAdapter();
+    const ctx = makeMockCtx(adapter);
+    adapter.findOne
+      .mockResolvedValueOnce(null) // existing payment
+      .mockResolvedValueOnce(null) // invoice by razorpayInvoiceId
+      .mockResolvedValueOnce({ id: "u1" }); // user by razorpayCustomerId
+    adapter.create.mockImplementation(async ({ data }) => ({
+      id: "pay_db_001",
+      ...data,
+    }));
+
+    const callback = vi.fn();
+    const event = makePaymentEvent("payment.captured", makeRazorpayPayment());
+
+    await onPaymentCaptured(
+      ctx,
+      makeOptions({ onPaymentCaptured: callback }),
+      event,
+    );
+
+    expect(adapter.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: "payment",
+        data: expect.objectContaining({
+          razorpayPaymentId: "pay_001",
+          referenceId: "u1",
+          amount: 49900,
+          currency: "INR",
+          status: "captured",
+          method: "upi",
+          capturedAt: expect.any(Date),
+        }),
+      }),
+    );
+    expect(callback).toHaveBeenCalledWith(
+      expect.objectContaining({
+        payment: expect.objectContaining({ id: "pay_db_001" }),
+      }),
+      ctx,
+    );
+  });
+
+  it("links the payment to the subscription in the payload", async () => {
+    const adapter = makeMockAdapter();
+    const ctx = makeMockCtx(adapter);
+    adapter.findOne
+      .mockResolvedValueOnce(null) // existing payment
+      .mockResolvedValueOnce(makeDbSubscription()); // subscription
+    adapter.create.mockImplementation(async ({ data }) => data);
+
+    const event: RazorpayWebhookEvent = {
+      ...makePaymentEvent("payment.authorized", makeRazorpayPayment()),
+      payload: {
+        payment: { entity: makeRazorpayPayment({ status: "authorized" }) },
+        subscription: { entity: makeRazorpaySub() },
+      },
+    };
+
+    await onPaymentAuthorized(ctx, makeOptions(), event);
+
+    expect(adapter.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          razorpaySubscriptionId: "sub_rzp_001",
+          subscriptionId: "sub_db_001",
+          referenceId: "u1",
+          status: "authorized",
+        }),
+      }),
+    );
+  });
+
+  it("records error details and calls onPaymentFailed", async () => {
+    const adapter = makeMockAdapter();
+    const ctx = makeMockCtx(adapter);
+    const existing: Payment = {
+      id: "pay_db_001",
+      razorpayPaymentId: "pay_001",
+      referenceId: "u1",
+      amount: 49900,
+      currency: "INR",
+      status: "authorized",
+      createdAt: new Date(),
+    };
+    adapter.findOne.mockResolvedValueOnce(existing);
+    adapter.update.mockResolvedValue({ ...existing, status: "failed" });
+
+    const callback = vi.fn();
+    const event = makePaymentEvent(
+      "payment.failed",
+      makeRazorpayPayment({
+        status: "failed",
+        error_code: "BAD_REQUEST_ERROR",
+        error_description: "Payment was declined by the bank",
+      }),
+    );
+
+    await onPaymentFailed(
+      ctx,
+      makeOptions({ onPaymentFailed: callback }),
+      event,
+    );
+
+    expect(adapter.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: "payment",
+        update: expect.objectContaining({
+          status: "failed",
+          errorCode: "BAD_REQUEST_ERROR",
+          errorDescription: "Payment was declined by the bank",
+        }),
+      }),
+    );
+    expect(callback).toHaveBeenCalled();
+  });
+
+  it("does not move a captured payment back to authorized", async () => {
+    const adapter = makeMockAdapter();
+    const ctx = makeMockCtx(adapter);
+    adapter.findOne.mockResolvedValueOnce({
+      id: "pay_db_001",
+      razorpayPaymentId: "pay_001",
+      referenceId: "u1",
+      status: "captured",
+      capturedAt: new Date(),
+    });
+
+    const event = makePaymentEvent(
+      "payment.authorized",
+      makeRazorpayPayment({ status: "authorized" }),
+    );
+
+    await onPaymentAuthorized(ctx, makeOptions(), event);
+
+    expect(adapter.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: expect.objectContaining({ status: "captured" }),
+      }),
+    );
+  });
+});
+
+// ─── Invoice Events ──────────────────────────────────────────────────────────
+
+describe("invoice webhook handlers", () => {
+  it("stores a paid invoice linked to its subscription and payment", async () => {
+    const adapter = makeMockAdapter();
+    const ctx = makeMockCtx(adapter);
+    adapter.findOne.mockImplementation(async ({ model }) =>
+      model === "subscription" ? makeDbSubscription() : null,
+    );
+    adapter.create.mockImplementation(async ({ data }) => data);
+
+    const event: RazorpayWebhookEvent = {
+      entity: "event",
+      account_id: "acc_001",
+      event: "invoice.paid",
+      contains: ["invoice", "payment"],
+      payload: {
+        invoice: { entity: makeRazorpayInvoice() },
+        payment: { entity: makeRazorpayPayment() },
+      },
+      created_at: 1700000100,
+    };
+
+    await onInvoicePaid(ctx, makeOptions(), event);
+
+    expect(adapter.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: "invoice",
+        data: expect.objectContaining({
+          razorpayInvoiceId: "inv_001",
+          invoiceNumber: "INV-001",
+          subscriptionId: "sub_db_001",
+          referenceId: "u1",
+          status: "paid",
+          taxAmount: 7612,
+          shortUrl: "https://rzp.io/i/abc",
+          billingStart: new Date(1700000000 * 1000),
+          billingEnd: new Date(1702592000 * 1000),
+        }),
+      }),
+    );
+    expect(adapter.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: "payment",
+        data: expect.objectContaining({
+          razorpayPaymentId: "pay_001",
+          razorpaySubscriptionId: "sub_rzp_001",
+          subscriptionId: "sub_db_001",
+        }),
+      }),
+    );
+  });
+
+  it("updates an existing invoice when it expires", async () => {
+    const adapter = makeMockAdapter();
+    const ctx = makeMockCtx(adapter);
+    adapter.findOne.mockImplementation(async ({ model }) =>
+      model === "invoice"
+        ? { id: "inv_db_001", razorpayInvoiceId: "inv_001", referenceId: "u1" }
+        : makeDbSubscription(),
+    );
+    adapter.update.mockImplementation(async ({ update }) => update);
+
+    const event: RazorpayWebhookEvent = {
+      entity: "event",
+      account_id: "acc_001",
+      event: "invoice.expired",
+      contains: ["invoice"],
+      payload: {
+        invoice: {
+          entity: makeRazorpayInvoice({
+            status: "expired",
+            amount_paid: 0,
+            amount_due: 49900,
+            paid_at: null,
+            expired_at: 1702592000,
+          }),
+        },
+      },
+      created_at: 1702592000,
+    };
+
+    await onInvoiceExpired(ctx, makeOptions(), event);
+
+    expect(adapter.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: "invoice",
+        update: expect.objectContaining({
+          status: "expired",
+          expiredAt: new Date(1702592000 * 1000),
+        }),
+        where: [{ field: "id", value: "inv_db_001" }],
+      }),
+    );
+  });
+});
+
+// ─── Refund Handlers ─────────────────────────────────────────────────────────
+
+describe("refund webhook handlers", () => {
+  it("stores a created refund linked to the local payment", async () => {
+    const adapter = makeMockAdapter();
+    const ctx = makeMockCtx(adapter);
+    adapter.findOne.mockImplementation(async ({ model }) =>
+      model === "payment"
+        ? {
+            id: "pay_db_001",
+            razorpayPaymentId: "pay_001",
+            subscriptionId: "sub_db_001",
+            referenceId: "u1",
+          }
+        : null,
+    );
+    adapter.create.mockImplementation(async ({ data }) => data);
+
+    const event: RazorpayWebhookEvent = {
+      entity: "event",
+      account_id: "acc_001",
+      event: "refund.created",
+      contains: ["refund"],
+      payload: { refund: { entity: makeRazorpayRefund() } },
+      created_at: 1700000200,
+    };
+
+    await onRefundCreated(ctx, makeOptions(), event);
+
+    expect(adapter.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: "refund",
+        data: expect.objectContaining({
+          razorpayRefundId: "rfnd_001",
+          razorpayPaymentId: "pay_001",
+          paymentId: "pay_db_001",
+          subscriptionId: "sub_db_001",
+          referenceId: "u1",
+          amount: 10000,
+          status: "pending",
+          speedRequested: "normal",
+        }),
+      }),
+    );
+  });
+
+  it("marks an existing refund processed", async () => {
+    const adapter = makeMockAdapter();
+    const ctx = makeMockCtx(adapter);
+    adapter.findOne.mockImplementation(async ({ model }) =>
+      model === "refund"
+        ? {
+            id: "rfnd_db_001",
+            razorpayRefundId: "rfnd_001",
+            status: "pending",
+            paymentId: "pay_db_001",
+          }
+        : null,
+    );
+    adapter.update.mockImplementation(async ({ update }) => update);
+
+    const event: RazorpayWebhookEvent = {
+      entity: "event",
+      account_id: "acc_001",
+      event: "refund.processed",
+      contains: ["refund"],
+      payload: {
+        refund: {
+          entity: makeRazorpayRefund({
+            status: "processed",
+            speed_processed: "normal",
+          }),
+        },
+      },
+      created_at: 1700000300,
+    };
+
+    await onRefundProcessed(ctx, makeOptions(), event);
+
+    expect(adapter.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: "refund",
+        update: expect.objectContaining({
+          status: "processed",
+          paymentId: "pay_db_001",
+          speedProcessed: "normal",
+          processedAt: expect.any(Date),
+        }),
+        where: [{ field: "id", value: "rfnd_db_001" }],
+      }),
+    );
+  });
+
+  it("does not move a processed refund back to pending", async () => {
+    const adapter = makeMockAdapter();
+    const ctx = makeMockCtx(adapter);
+    adapter.findOne.mockImplementation(async ({ model }) =>
+      model === "refund"
+        ? {
+            id: "rfnd_db_001",
+            razorpayRefundId: "rfnd_001",
+            status: "processed",
+            processedAt: new Date(),
+          }
+        : null,
+    );
+
+    const event: RazorpayWebhookEvent = {
+      entity: "event",
+      account_id: "acc_001",
+      event: "refund.created",
+      contains: ["refund"],
+      payload: { refund: { entity: makeRazorpayRefund() } },
+      created_at: 1700000200,
+    };
+
+    await onRefundCreated(ctx, makeOptions(), event);
+
+    expect(adapter.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: expect.objectContaining({ status: "processed" }),
+      }),
+    );
+  });
+});
+
+// ─── Dispute Handlers ────────────────────────────────────────────────────────
+
+describe("dispute webhook handlers", () => {
+  const disputedPayment = {
+    id: "pay_db_001",
+    razorpayPaymentId: "pay_001",
+    subscriptionId: "sub_db_001",
+    referenceId: "u1",
+  };
+
+  it("stores a new dispute and calls onDisputeCreated", async () => {
+    const adapter = makeMockAdapter();
+    const ctx = makeMockCtx(adapter);
+    adapter.findOne.mockImplementation(async ({ model }) =>
+      model === "payment" ? disputedPayment : null,
+    );
+    adapter.create.mockImplementation(async ({ data }) => data);
+    const callback = vi.fn();
+
+    await onDisputeCreated(
+      ctx,
+      makeOptions({ onDisputeCreated: callback }),
+      makeDisputeEvent("payment.dispute.created", makeRazorpayDispute()),
+    );
+
+    expect(adapter.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: "dispute",
+        data: expect.objectContaining({
+          razorpayDisputeId: "disp_001",
+          paymentId: "pay_db_001",
+          subscriptionId: "sub_db_001",
+          referenceId: "u1",
+          status: "open",
+          phase: "chargeback",
+          reasonCode: "fraudulent",
+          respondBy: new Date(1700600000 * 1000),
+        }),
+      }),
+    );
+    expect(callback).toHaveBeenCalledWith(
+      expect.objectContaining({
+        dispute: expect.objectContaining({ razorpayDisputeId: "disp_001" }),
+      }),
+      ctx,
+    );
+  });
+
+  it("pauses the linked subscription when the policy is pause", async () => {
+    const adapter = makeMockAdapter();
+    const ctx = makeMockCtx(adapter);
+    adapter.findOne.mockImplementation(async ({ model }) => {
+      if (model === "payment") return disputedPayment;
+      if (model === "subscription") return makeDbSubscription();
+      return null;
+    });
+    adapter.create.mockImplementation(async ({ data }) => data);
+    const pause = vi.fn().mockResolvedValue({});
+    const callback = vi.fn();
+
+    await onDisputeLost(
+      ctx,
+      makeOptions({
+        razorpayClient: { subscriptions: { pause } } as any,
+        onDisputeLost: callback,
+        subscription: {
+          enabled: true,
+          plans: [{ planId: "plan_001", name: "Basic" }],
+          disputeLostPolicy: "pause",
+        },
+      }),
+      makeDisputeEvent(
+        "payment.dispute.lost",
+        makeRazorpayDispute({ status: "lost", amount_deducted: 49900 }),
+      ),
+    );
+
+    expect(pause).toHaveBeenCalledWith("sub_rzp_001", { pause_at: "now" });
+    expect(adapter.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: "subscription",
+        update: expect.objectContaining({ status: "paused" }),
+        where: [{ field: "id", value: "sub_db_001" }],
+      }),
+    );
+    expect(callback).toHaveBeenCalled();
+  });
+
+  it("leaves the subscription alone without a policy", async () => {
+    const adapter = makeMockAdapter();
+    const ctx = makeMockCtx(adapter);
+    adapter.findOne.mockImplementation(async ({ model }) =>
+      model === "payment" ? disputedPayment : null,
+    );
+    adapter.create.mockImplementation(async ({ data }) => data);
+    const cancel = vi.fn();
+
+    await onDisputeLost(
+      ctx,
+      makeOptions({ razorpayClient: { subscriptions: { cancel } } as any }),
+      makeDisputeEvent(
+        "payment.dispute.lost",
+        makeRazorpayDispute({ status: "lost" }),
+      ),
+    );
+
+    expect(cancel).not.toHaveBeenCalled();
+    expect(adapter.update).not.toHaveBeenCalled();
+    expect(adapter.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: "dispute",
+        data: expect.objectContaining({
+          status: "lost",
+          resolvedAt: expect.any(Date),
+        }),
+      }),
+    );
+  });
+});
+
+// ─── Out-of-Order Events ─────────────────────────────────────────────────────
+
+describe("out-of-order webhook events", () => {
+  it("ignores events older than the last applied event", async () => {
+    const adapter = makeMockAdapter();
+    const ctx = makeMockCtx(adapter);
+    adapter.findOne.mockResolvedValue(
+      makeDbSubscription({ lastEventAt: new Date(1700000100 * 1000) }),
+    );
+
+    const event = {
+      ...makeWebhookEvent(
+        "subscription.pending",
+        makeRazorpaySub({ status: "pending" }),
+      ),
+      created_at: 1700000000,
+    };
+    const callback = vi.fn();
+    const options = makeOptions({
+      subscription: {
+        enabled: true,
+        plans: [{ planId: "plan_001", name: "Basic" }],
+        onSubscriptionPending: callback,
+      },
+    });
+
+    await onSubscriptionPending(ctx, options, event);
+
+    expect(adapter.update).not.toHaveBeenCalled();
+    expect(callback).not.toHaveBeenCalled();
+    expect(ctx.context.logger.info).toHaveBeenCalledWith(
+      expect.stringContaining("stale"),
+    );
+  });
+
+  it("applies events at or after the last applied event and records lastEventAt", async () => {
+    const adapter = makeMockAdapter();
+    const ctx = makeMockCtx(adapter);
+    adapter.findOne.mockResolvedValue(
+      makeDbSubscription({ lastEventAt: new Date(1700000000 * 1000) }),
+    );
+    adapter.update.mockResolvedValue(makeDbSubscription({ status: "halted" }));
+
+    const event = {
+      ...makeWebhookEvent(
+        "subscription.halted",
+        makeRazorpaySub({ status: "halted" }),
+      ),
+      created_at: 1700000000,
+    };
+
+    await onSubscriptionHalted(ctx, makeOptions(), event);
+
+    expect(adapter.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: expect.objectContaining({
+          status: "halted",
+          lastEventAt: new Date(1700000000 * 1000),
+        }),
+      }),
+    );
+  });
+
+  it("ignores stale activation events for existing subscriptions", async () => {
+    const adapter = makeMockAdapter();
+    const ctx = makeMockCtx(adapter);
+    adapter.findOne.mockResolvedValue(
+      makeDbSubscription({ lastEventAt: new Date(1700000100 * 1000) }),
+    );
+
+    const event = {
+      ...makeWebhookEvent("subscription.activated", makeRazorpaySub()),
+      created_at: 1700000000,
+    };
+
+    await onSubscriptionActivated(ctx, makeOptions(), event);
+
+    expect(adapter.update).not.toHaveBeenCalled();
+    expect(adapter.create).not.toHaveBeenCalled();
+  });
+});
+
 // ─── Error Handling ──────────────────────────────────────────────────────────
 
 describe("webhook handler error handling", () => {
-  it("catches and logs errors without throwing", async () => {
+  it("logs and rethrows errors", async () => {
     const adapter = makeMockAdapter();
     const ctx = makeMockCtx(adapter);
     adapter.findOne.mockRejectedValue(new Error("DB connection failed"));
 
     const event = makeWebhookEvent("subscription.charged", makeRazorpaySub());
 
-    // Should not throw
     await expect(
       onSubscriptionCharged(ctx, makeOptions(), event),
-    ).resolves.toBeUndefined();
+    ).rejects.toThrow("DB connection failed");
 
     expect(ctx.context.logger.error).toHaveBeenCalledWith(
       expect.stringContaining("DB connection failed"),
     );
   });
+
+  it("wraps errors thrown by user callbacks", async () => {
+    const adapter = makeMockAdapter();
+    const ctx = makeMockCtx(adapter);
+    adapter.findOne.mockResolvedValue(makeDbSubscription());
+    adapter.update.mockResolvedValue(makeDbSubscription());
+
+    const event = makeWebhookEvent("subscription.charged", makeRazorpaySub());
+    const options = makeOptions({
+      subscription: {
+        enabled: true,
+        plans: [{ planId: "plan_001", name: "Basic" }],
+        onSubscriptionCharged: vi.fn().mockRejectedValue(new Error("boom")),
+      },
+    });
+
+    await expect(onSubscriptionCharged(ctx, options, event)).rejects.toThrow(
+      RazorpayCallbackError,
+    );
+  });
 });
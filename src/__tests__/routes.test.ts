@@ -0,0 +1,1422 @@
+import { betterAuth } from "better-auth";
+import { memoryAdapter } from "better-auth/adapters/memory";
+import { describe, expect, it, vi } from "vitest";
+import { RAZORPAY_ERROR_CODES } from "../error-codes";
+import { razorpay } from "../index";
+import { createFakeRazorpay } from "../testing";
+import type {
+  DunningOptions,
+  RazorpayOptions,
+  UsageBillingOptions,
+} from "../types";
+
+// ─── Test Harness ────────────────────────────────────────────────────────────
+
+const WEBHOOK_SECRET = "whsec";
+
+const MODELS = [
+  "user",
+  "session",
+  "account",
+  "verification",
+  "subscription",
+  "payment",
+  "invoice",
+  "refund",
+  "dispute",
+  "razorpayWebhookEvent",
+  "razorpayWebhookDeadLetter",
+  "usageRecord",
+];
+
+async function makeHarness(
+  subscription: Partial<NonNullable<RazorpayOptions["subscription"]>> = {},
+) {
+  const fake = createFakeRazorpay({
+    plans: [
+      { id: "plan_basic", amount: 19900 },
+      { id: "plan_pro", amount: 49900 },
+      { id: "plan_pro_annual", amount: 499000, period: "yearly" },
+    ],
+  });
+  const db: Record<string, any[]> = Object.fromEntries(
+    MODELS.map((model) => [model, []]),
+  );
+  const auth = betterAuth({
+    baseURL: "http://localhost:3000",
+    secret: "better-auth-secret-for-tests-only",
+    database: memoryAdapter(db),
+    emailAndPassword: { enabled: true },
+    plugins: [
+      razorpay({
+        razorpayClient: fake.client,
+        razorpayWebhookSecret: WEBHOOK_SECRET,
+        createCustomerOnSignUp: true,
+        subscription: {
+          plans: [
+            { planId: "plan_basic", name: "basic", totalCount: 12 },
+            {
+              planId: "plan_pro",
+              annualPlanId: "plan_pro_annual",
+              name: "pro",
+              totalCount: 12,
+            },
+          ],
+          ...subscription,
+          enabled: true,
+        },
+      }),
+    ],
+  });
+
+  const signUp = await auth.api.signUpEmail({
+    body: { email: "ada@example.com", password: "password123", name: "Ada" },
+    returnHeaders: true,
+  });
+  const headers = new Headers({ cookie: signUp.headers.get("set-cookie")! });
+
+  const deliver = () =>
+    fake.deliverEvents(auth.handler, { secret: WEBHOOK_SECRET });
+
+  /**
+   * Subscribe to a plan and let the first charge go through.
+   */
+  async function subscribe(plan: string) {
+    const { razorpaySubscription } = await auth.api.upgradeSubscription({
+      body: { plan },
+      headers,
+    });
+    fake.authenticate(razorpaySubscription.id);
+    fake.charge(razorpaySubscription.id);
+    await deliver();
+    return razorpaySubscription.id as string;
+  }
+
+  return { auth, db, fake, headers, deliver, subscribe };
+}
+
+// ─── upgradeSubscription ─────────────────────────────────────────────────────
+
+describe("upgradeSubscription", () => {
+  it("changes the plan of an active subscription in place", async () => {
+    const { auth, db, fake, headers, subscribe } = await makeHarness();
+    const razorpaySubscriptionId = await subscribe("basic");
+
+    const { subscription, razorpaySubscription } =
+      await auth.api.upgradeSubscription({ body: { plan: "pro" }, headers });
+
+    expect(razorpaySubscription.id).toBe(razorpaySubscriptionId);
+    expect(db.subscription).toHaveLength(1);
+    expect(subscription).toMatchObject({
+      plan: "pro",
+      razorpayPlanId: "plan_pro",
+      status: "active",
+    });
+    const fetched = await (fake.client.subscriptions as any).fetch(
+      razorpaySubscriptionId,
+    );
+    expect(fetched.plan_id).toBe("plan_pro");
+  });
+
+  it("switches to the annual plan of the same tier", async () => {
+    const { auth, headers, subscribe } = await makeHarness();
+    await subscribe("pro");
+
+    const { subscription } = await auth.api.upgradeSubscription({
+      body: { plan: "pro", annual: true },
+      headers,
+    });
+    expect(subscription).toMatchObject({
+      razorpayPlanId: "plan_pro_annual",
+      billingPeriod: "yearly",
+    });
+  });
+
+  it("schedules the change for the cycle end", async () => {
+    const { auth, db, fake, headers, deliver, subscribe } = await makeHarness();
+    const razorpaySubscriptionId = await subscribe("basic");
+
+    const { subscription, razorpaySubscription } =
+      await auth.api.upgradeSubscription({
+        body: { plan: "pro", scheduleAtPeriodEnd: true },
+        headers,
+      });
+    expect(razorpaySubscription.has_scheduled_changes).toBe(true);
+    expect(subscription.plan).toBe("basic");
+
+    fake.charge(razorpaySubscriptionId);
+    await deliver();
+    expect(db.subscription).toHaveLength(1);
+    expect(db.subscription![0]).toMatchObject({
+      plan: "pro",
+      razorpayPlanId: "plan_pro",
+    });
+  });
+
+  it("rejects the plan the subscription is already on", async () => {
+    const { auth, headers, subscribe } = await makeHarness();
+    await subscribe("pro");
+
+    const error = await auth.api
+      .upgradeSubscription({ body: { plan: "pro" }, headers })
+      .catch((e) => e);
+    expect(error.body).toMatchObject({
+      body: { code: RAZORPAY_ERROR_CODES.ALREADY_SUBSCRIBED_PLAN },
+    });
+  });
+
+  it("creates a new subscription when the current one has ended", async () => {
+    const { auth, db, headers, deliver, subscribe } = await makeHarness();
+    await subscribe("basic");
+    await auth.api.cancelSubscription({ body: {}, headers });
+    await deliver();
+
+    await auth.api.upgradeSubscription({ body: { plan: "pro" }, headers });
+    expect(db.subscription).toHaveLength(2);
+  });
+});
+
+// ─── previewSubscriptionChange ───────────────────────────────────────────────
+
+describe("previewSubscriptionChange", () => {
+  it("previews a new subscription", async () => {
+    const { auth, headers } = await makeHarness();
+    const preview = await auth.api.previewSubscriptionChange({
+      body: { plan: "pro" },
+      headers,
+    });
+    expect(preview).toMatchObject({
+      changeType: "new",
+      currentPlan: null,
+      targetPlan: { plan: "pro", amount: 49900, currency: "INR" },
+      amountDueNow: 49900,
+      nextChargeAmount: 49900,
+    });
+  });
+
+  it("estimates an immediate upgrade on the same cycle", async () => {
+    const { auth, db, headers, subscribe } = await makeHarness();
+    await subscribe("basic");
+
+    const preview = await auth.api.previewSubscriptionChange({
+      body: { plan: "pro" },
+      headers,
+    });
+    const { currentEnd } = db.subscription![0];
+    expect(preview).toMatchObject({
+      changeType: "upgrade",
+      currentPlan: { plan: "basic", amount: 19900 },
+      targetPlan: { plan: "pro", amount: 49900 },
+      scheduleChangeAt: "now",
+      nextChargeAt: currentEnd,
+      nextChargeAmount: 49900,
+    });
+    // Nearly the whole cycle is left, so nearly the whole difference is due
+    expect(preview.proratedAmount).toBeGreaterThan(29000);
+    expect(preview.proratedAmount).toBeLessThanOrEqual(30000);
+    expect(preview.amountDueNow).toBe(preview.proratedAmount);
+    expect(db.subscription![0].plan).toBe("basic");
+  });
+
+  it("credits a downgrade and charges nothing now", async () => {
+    const { auth, headers, subscribe } = await makeHarness();
+    await subscribe("pro");
+
+    const preview = await auth.api.previewSubscriptionChange({
+      body: { plan: "basic" },
+      headers,
+    });
+    expect(preview.changeType).toBe("downgrade");
+    expect(preview.proratedAmount).toBeLessThan(0);
+    expect(preview.amountDueNow).toBe(0);
+  });
+
+  it("takes effect at the cycle end when scheduled", async () => {
+    const { auth, db, headers, subscribe } = await makeHarness();
+    await subscribe("basic");
+
+    const preview = await auth.api.previewSubscriptionChange({
+      body: { plan: "pro", scheduleAtPeriodEnd: true },
+      headers,
+    });
+    expect(preview).toMatchObject({
+      scheduleChangeAt: "cycle_end",
+      effectiveAt: db.subscription![0].currentEnd,
+      proratedAmount: 0,
+      amountDueNow: 0,
+    });
+  });
+
+  it("restarts the cycle when switching to the annual plan", async () => {
+    const { auth, headers, subscribe } = await makeHarness();
+    await subscribe("pro");
+
+    const preview = await auth.api.previewSubscriptionChange({
+      body: { plan: "pro", annual: true },
+      headers,
+    });
+    expect(preview.changeType).toBe("downgrade");
+    expect(preview.targetPlan).toMatchObject({
+      razorpayPlanId: "plan_pro_annual",
+      period: "yearly",
+    });
+    expect(preview.amountDueNow).toBeGreaterThanOrEqual(499000 - 49900);
+    expect(
+      new Date(preview.nextChargeAt!).getTime() - Date.now(),
+    ).toBeGreaterThan(360 * 24 * 60 * 60 * 1000);
+  });
+});
+
+// ─── Timed Pauses ────────────────────────────────────────────────────────────
+
+describe("timed pauses", () => {
+  const DAY = 24 * 60 * 60 * 1000;
+  const limitedPlans = {
+    plans: [
+      {
+        planId: "plan_basic",
+        name: "basic",
+        totalCount: 12,
+        pause: { maxDays: 90, maxPausesPerYear: 1 },
+      },
+    ],
+  };
+
+  it("stores resumeAt and counts the pause", async () => {
+    const { auth, headers, subscribe } = await makeHarness();
+    await subscribe("basic");
+    const resumeAt = new Date(Date.now() + 30 * DAY);
+
+    const { subscription } = await auth.api.pauseSubscription({
+      body: { resumeAt },
+      headers,
+    });
+    expect(subscription).toMatchObject({
+      status: "paused",
+      resumeAt,
+      pauseCount: 1,
+    });
+    expect(subscription.pauseWindowStart).toBeInstanceOf(Date);
+  });
+
+  it("rejects a resumeAt in the past", async () => {
+    const { auth, headers, subscribe } = await makeHarness();
+    await subscribe("basic");
+
+    const error = await auth.api
+      .pauseSubscription({
+        body: { resumeAt: new Date(Date.now() - DAY) },
+        headers,
+      })
+      .catch((e) => e);
+    expect(error.body).toMatchObject({
+      body: { code: RAZORPAY_ERROR_CODES.INVALID_RESUME_DATE },
+    });
+  });
+
+  it("defaults resumeAt to the plan's maxDays", async () => {
+    const { auth, headers, subscribe } = await makeHarness(limitedPlans);
+    await subscribe("basic");
+
+    const { subscription } = await auth.api.pauseSubscription({
+      body: {},
+      headers,
+    });
+    const days = (subscription.resumeAt!.getTime() - Date.now()) / DAY;
+    expect(days).toBeGreaterThan(89.9);
+    expect(days).toBeLessThanOrEqual(90);
+  });
+
+  it("rejects a pause longer than maxDays", async () => {
+    const { auth, db, headers, subscribe } = await makeHarness(limitedPlans);
+    await subscribe("basic");
+
+    const error = await auth.api
+      .pauseSubscription({
+        body: { resumeAt: new Date(Date.now() + 120 * DAY) },
+        headers,
+      })
+      .catch((e) => e);
+    expect(error.body).toMatchObject({
+      body: { code: RAZORPAY_ERROR_CODES.PAUSE_DURATION_EXCEEDED },
+    });
+    expect(db.subscription![0].status).toBe("active");
+  });
+
+  it("limits pauses per year", async () => {
+    const { auth, db, headers, subscribe } = await makeHarness(limitedPlans);
+    await subscribe("basic");
+    await auth.api.pauseSubscription({ body: {}, headers });
+    await auth.api.resumeSubscription({ body: {}, headers });
+
+    const error = await auth.api
+      .pauseSubscription({ body: {}, headers })
+      .catch((e) => e);
+    expect(error.body).toMatchObject({
+      body: { code: RAZORPAY_ERROR_CODES.PAUSE_LIMIT_REACHED },
+    });
+
+    // A new window opens a year after the first pause
+    db.subscription![0].pauseWindowStart = new Date(Date.now() - 366 * DAY);
+    const { subscription } = await auth.api.pauseSubscription({
+      body: {},
+      headers,
+    });
+    expect(subscription.pauseCount).toBe(1);
+  });
+
+  it("resumes due subscriptions from the sweep", async () => {
+    const { auth, db, fake, headers, subscribe } = await makeHarness();
+    const razorpaySubscriptionId = await subscribe("basic");
+    await auth.api.pauseSubscription({
+      body: { resumeAt: new Date(Date.now() + DAY) },
+      headers,
+    });
+
+    const early = await auth.api.resumeDueSubscriptions({ body: {} });
+    expect(early).toEqual({ resumed: [], failed: [] });
+
+    db.subscription![0].resumeAt = new Date(Date.now() - 1000);
+    const { resumed, failed } = await auth.api.resumeDueSubscriptions({
+      body: {},
+    });
+    expect(failed).toEqual([]);
+    expect(resumed).toHaveLength(1);
+    expect(db.subscription![0]).toMatchObject({
+      status: "active",
+      pausedAt: null,
+      resumeAt: null,
+    });
+    const fetched = await (fake.client.subscriptions as any).fetch(
+      razorpaySubscriptionId,
+    );
+    expect(fetched.status).toBe("active");
+  });
+
+  it("reports subscriptions Razorpay fails to resume", async () => {
+    const { auth, db, fake, headers, subscribe } = await makeHarness();
+    await subscribe("basic");
+    await auth.api.pauseSubscription({
+      body: { resumeAt: new Date(Date.now() + DAY) },
+      headers,
+    });
+    db.subscription![0].resumeAt = new Date(Date.now() - 1000);
+    (fake.client.subscriptions as any).resume = async () => {
+      throw new Error("Razorpay is down");
+    };
+
+    const { resumed, failed } = await auth.api.resumeDueSubscriptions({
+      body: {},
+    });
+    expect(resumed).toEqual([]);
+    expect(failed).toEqual([
+      { subscriptionId: db.subscription![0].id, error: "Razorpay is down" },
+    ]);
+    expect(db.subscription![0].status).toBe("paused");
+  });
+});
+
+// ─── Trial Expiry ────────────────────────────────────────────────────────────
+
+describe("processTrials", () => {
+  function trialPlans(onTrialExpired = vi.fn()) {
+    return {
+      plans: [
+        {
+          planId: "plan_basic",
+          name: "basic",
+          totalCount: 12,
+          freeTrial: { days: 7, onTrialExpired },
+        },
+      ],
+    };
+  }
+
+  it("expires lapsed trials and fires onTrialExpired", async () => {
+    const onTrialExpired = vi.fn();
+    const { auth, db, fake, headers, deliver } = await makeHarness(
+      trialPlans(onTrialExpired),
+    );
+    const { razorpaySubscription } = await auth.api.upgradeSubscription({
+      body: { plan: "basic" },
+      headers,
+    });
+
+    const early = await auth.api.processTrials({ body: {} });
+    expect(early).toEqual({ reminded: [], expired: [], failed: [] });
+
+    db.subscription![0].trialEnd = new Date(Date.now() - 1000);
+    const { expired, failed } = await auth.api.processTrials({ body: {} });
+
+    expect(failed).toEqual([]);
+    expect(expired).toHaveLength(1);
+    expect(db.subscription![0].status).toBe("expired");
+    expect(onTrialExpired).toHaveBeenCalledWith(
+      expect.objectContaining({ id: db.subscription![0].id }),
+      expect.anything(),
+    );
+    const fetched = await (fake.client.subscriptions as any).fetch(
+      razorpaySubscription.id,
+    );
+    expect(fetched.status).toBe("cancelled");
+
+    // The cancellation webhook does not overwrite the expiry
+    await deliver();
+    expect(db.subscription![0].status).toBe("expired");
+  });
+
+  it("leaves activated subscriptions alone", async () => {
+    const { auth, db, subscribe } = await makeHarness(trialPlans());
+    await subscribe("basic");
+    db.subscription![0].trialEnd = new Date(Date.now() - 1000);
+
+    const { expired } = await auth.api.processTrials({ body: {} });
+    expect(expired).toEqual([]);
+    expect(db.subscription![0].status).toBe("active");
+  });
+
+  it("leaves authenticated subscriptions awaiting their first charge alone", async () => {
+    const { auth, db, fake, headers, deliver } =
+      await makeHarness(trialPlans());
+    const { razorpaySubscription } = await auth.api.upgradeSubscription({
+      body: { plan: "basic" },
+      headers,
+    });
+    fake.authenticate(razorpaySubscription.id);
+    await deliver();
+    db.subscription![0].trialEnd = new Date(Date.now() - 1000);
+
+    const { expired, failed } = await auth.api.processTrials({ body: {} });
+    expect(expired).toEqual([]);
+    expect(failed).toEqual([]);
+    expect(db.subscription![0].status).toBe("authenticated");
+    const fetched = await (fake.client.subscriptions as any).fetch(
+      razorpaySubscription.id,
+    );
+    expect(fetched.status).toBe("authenticated");
+  });
+
+  it("reports a failing onTrialExpired", async () => {
+    const onTrialExpired = vi.fn().mockRejectedValue(new Error("mailer down"));
+    const { auth, db, headers } = await makeHarness(trialPlans(onTrialExpired));
+    await auth.api.upgradeSubscription({ body: { plan: "basic" }, headers });
+    db.subscription![0].trialEnd = new Date(Date.now() - 1000);
+
+    const { expired, failed } = await auth.api.processTrials({ body: {} });
+    expect(expired).toHaveLength(1);
+    expect(failed).toEqual([
+      {
+        subscriptionId: db.subscription![0].id,
+        error: expect.stringContaining("onTrialExpired"),
+      },
+    ]);
+  });
+});
+
+describe("trial reminders", () => {
+  const DAY = 24 * 60 * 60 * 1000;
+
+  async function startTrial(onTrialWillEnd: () => Promise<void>) {
+    const harness = await makeHarness({
+      plans: [
+        {
+          planId: "plan_basic",
+          name: "basic",
+          totalCount: 12,
+          freeTrial: { days: 14, reminderDays: 3, onTrialWillEnd },
+        },
+      ],
+    });
+    await harness.auth.api.upgradeSubscription({
+      body: { plan: "basic" },
+      headers: harness.headers,
+    });
+    return harness;
+  }
+
+  it("reminds once when the trial ends within reminderDays", async () => {
+    const onTrialWillEnd = vi.fn(async () => {});
+    const { auth, db } = await startTrial(onTrialWillEnd);
+
+    await auth.api.processTrials({ body: {} });
+    expect(onTrialWillEnd).not.toHaveBeenCalled();
+
+    db.subscription![0].trialEnd = new Date(Date.now() + 2 * DAY);
+    const { reminded } = await auth.api.processTrials({ body: {} });
+    expect(reminded).toHaveLength(1);
+    expect(onTrialWillEnd).toHaveBeenCalledWith(
+      { subscription: expect.objectContaining({ plan: "basic" }) },
+      expect.anything(),
+    );
+    expect(db.subscription![0]).toMatchObject({ trialReminderSent: true });
+    expect(db.subscription![0].trialReminderSentAt).toBeInstanceOf(Date);
+
+    const rerun = await auth.api.processTrials({ body: {} });
+    expect(rerun.reminded).toEqual([]);
+    expect(onTrialWillEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not let reminded trials fill the limit", async () => {
+    const onTrialWillEnd = vi.fn(async () => {});
+    const { auth, db } = await startTrial(onTrialWillEnd);
+    const first = db.subscription![0];
+    first.trialEnd = new Date(Date.now() + DAY);
+    db.subscription!.push({
+      ...first,
+      id: "sub_local_2",
+      trialEnd: new Date(Date.now() + 2 * DAY),
+    });
+
+    const run = await auth.api.processTrials({ body: { limit: 1 } });
+    expect(run.reminded.map((s) => s.id)).toEqual([first.id]);
+
+    const next = await auth.api.processTrials({ body: { limit: 1 } });
+    expect(next.reminded.map((s) => s.id)).toEqual(["sub_local_2"]);
+    expect(onTrialWillEnd).toHaveBeenCalledTimes(2);
+  });
+
+  it("retries a reminder whose callback failed", async () => {
+    const onTrialWillEnd = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("mailer down"))
+      .mockResolvedValue(undefined);
+    const { auth, db } = await startTrial(onTrialWillEnd);
+    db.subscription![0].trialEnd = new Date(Date.now() + DAY);
+
+    const first = await auth.api.processTrials({ body: {} });
+    expect(first.reminded).toEqual([]);
+    expect(first.failed).toHaveLength(1);
+    expect(db.subscription![0].trialReminderSentAt).toBeUndefined();
+
+    const second = await auth.api.processTrials({ body: {} });
+    expect(second.reminded).toHaveLength(1);
+    expect(onTrialWillEnd).toHaveBeenCalledTimes(2);
+  });
+});
+
+// ─── Card-less Trials ────────────────────────────────────────────────────────
+
+describe("card-less trials", () => {
+  function cardlessPlans(onTrialStart = vi.fn(async () => {})) {
+    return {
+      plans: [
+        {
+          planId: "plan_basic",
+          name: "basic",
+          totalCount: 12,
+          freeTrial: { days: 14, requirePaymentMethod: false, onTrialStart },
+        },
+        { planId: "plan_pro", name: "pro", totalCount: 12 },
+      ],
+    };
+  }
+
+  it("starts the trial without a Razorpay subscription", async () => {
+    const onTrialStart = vi.fn(async () => {});
+    const { auth, db, headers } = await makeHarness(
+      cardlessPlans(onTrialStart),
+    );
+
+    const { subscription, razorpaySubscription } =
+      await auth.api.upgradeSubscription({ body: { plan: "basic" }, headers });
+
+    expect(razorpaySubscription).toBeNull();
+    expect(subscription).toMatchObject({ status: "trialing", plan: "basic" });
+    expect(subscription.trialEnd).toBeInstanceOf(Date);
+    expect(db.subscription![0].razorpaySubscriptionId).toBeUndefined();
+    expect(onTrialStart).toHaveBeenCalledWith(
+      expect.objectContaining({ id: subscription.id }),
+    );
+  });
+
+  it("creates the Razorpay subscription on upgrade", async () => {
+    const { auth, db, fake, headers, deliver } =
+      await makeHarness(cardlessPlans());
+    const trial = await auth.api.upgradeSubscription({
+      body: { plan: "basic" },
+      headers,
+    });
+
+    const { subscription, razorpaySubscription } =
+      await auth.api.upgradeSubscription({ body: { plan: "pro" }, headers });
+
+    expect(db.subscription).toHaveLength(1);
+    expect(subscription).toMatchObject({
+      id: trial.subscription.id,
+      status: "trialing",
+      plan: "pro",
+      razorpayPlanId: "plan_pro",
+      razorpaySubscriptionId: razorpaySubscription.id,
+    });
+    // The first charge waits for the rest of the trial
+    expect(razorpaySubscription.start_at).toBe(
+      Math.floor(trial.subscription.trialEnd!.getTime() / 1000),
+    );
+
+    fake.authenticate(razorpaySubscription.id);
+    await deliver();
+    expect(db.subscription![0].status).toBe("authenticated");
+  });
+
+  it("reuses the Razorpay subscription when upgrading twice", async () => {
+    const { auth, db, headers } = await makeHarness(cardlessPlans());
+    await auth.api.upgradeSubscription({ body: { plan: "basic" }, headers });
+
+    const first = await auth.api.upgradeSubscription({
+      body: { plan: "pro" },
+      headers,
+    });
+    const second = await auth.api.upgradeSubscription({
+      body: { plan: "pro" },
+      headers,
+    });
+
+    expect(second.razorpaySubscription.id).toBe(first.razorpaySubscription.id);
+    expect(db.subscription![0].razorpaySubscriptionId).toBe(
+      first.razorpaySubscription.id,
+    );
+  });
+
+  it("cancels the earlier mandate when switching plans again", async () => {
+    const { auth, db, fake, headers } = await makeHarness(cardlessPlans());
+    await auth.api.upgradeSubscription({ body: { plan: "basic" }, headers });
+
+    const first = await auth.api.upgradeSubscription({
+      body: { plan: "pro" },
+      headers,
+    });
+    const second = await auth.api.upgradeSubscription({
+      body: { plan: "basic" },
+      headers,
+    });
+
+    expect(second.razorpaySubscription.id).not.toBe(
+      first.razorpaySubscription.id,
+    );
+    expect(db.subscription![0]).toMatchObject({
+      plan: "basic",
+      razorpaySubscriptionId: second.razorpaySubscription.id,
+    });
+    const orphan = await (fake.client.subscriptions as any).fetch(
+      first.razorpaySubscription.id,
+    );
+    expect(orphan.status).toBe("cancelled");
+  });
+
+  it("expires a converted trial that was never authorized", async () => {
+    const onTrialExpired = vi.fn(async () => {});
+    const { auth, db, fake, headers } = await makeHarness({
+      plans: [
+        {
+          planId: "plan_basic",
+          name: "basic",
+          totalCount: 12,
+          freeTrial: {
+            days: 14,
+            requirePaymentMethod: false,
+            onTrialExpired,
+          },
+        },
+      ],
+    });
+    await auth.api.upgradeSubscription({ body: { plan: "basic" }, headers });
+    const { razorpaySubscription } = await auth.api.upgradeSubscription({
+      body: { plan: "basic" },
+      headers,
+    });
+    db.subscription![0].trialEnd = new Date(Date.now() - 1000);
+
+    const { expired, failed } = await auth.api.processTrials({ body: {} });
+    expect(failed).toEqual([]);
+    expect(expired).toHaveLength(1);
+    expect(db.subscription![0].status).toBe("expired");
+    expect(onTrialExpired).toHaveBeenCalledTimes(1);
+    const fetched = await (fake.client.subscriptions as any).fetch(
+      razorpaySubscription.id,
+    );
+    expect(fetched.status).toBe("cancelled");
+  });
+
+  it("expires a lapsed trial without calling Razorpay", async () => {
+    const { auth, db, headers } = await makeHarness(cardlessPlans());
+    await auth.api.upgradeSubscription({ body: { plan: "basic" }, headers });
+    db.subscription![0].trialEnd = new Date(Date.now() - 1000);
+
+    const { expired, failed } = await auth.api.processTrials({ body: {} });
+    expect(failed).toEqual([]);
+    expect(expired).toHaveLength(1);
+    expect(db.subscription![0].status).toBe("expired");
+  });
+
+  it("does not grant a second trial", async () => {
+    const { auth, db, headers } = await makeHarness(cardlessPlans());
+    await auth.api.upgradeSubscription({ body: { plan: "basic" }, headers });
+    db.subscription![0].trialEnd = new Date(Date.now() - 1000);
+    await auth.api.processTrials({ body: {} });
+
+    const { subscription, razorpaySubscription } =
+      await auth.api.upgradeSubscription({ body: { plan: "basic" }, headers });
+    expect(subscription).toMatchObject({ status: "created" });
+    expect(subscription.trialStart).toBeUndefined();
+    expect(razorpaySubscription.id).toMatch(/^sub_/);
+  });
+});
+
+// ─── dunning ─────────────────────────────────────────────────────────────────
+
+describe("dunning", () => {
+  const DAY = 24 * 60 * 60 * 1000;
+
+  async function failPayment(dunning: DunningOptions) {
+    const harness = await makeHarness({ dunning });
+    const razorpaySubscriptionId = await harness.subscribe("basic");
+    harness.fake.failCharge(razorpaySubscriptionId);
+    await harness.deliver();
+    return { ...harness, razorpaySubscriptionId };
+  }
+
+  it("tracks pastDueSince from the first failed payment until a charge", async () => {
+    const { db, fake, deliver, razorpaySubscriptionId } = await failPayment({});
+    const pastDueSince = db.subscription![0].pastDueSince;
+    expect(db.subscription![0]).toMatchObject({
+      status: "pending",
+      dunningRemindersSent: 0,
+    });
+    expect(pastDueSince).toBeInstanceOf(Date);
+
+    fake.halt(razorpaySubscriptionId);
+    await deliver();
+    expect(db.subscription![0].pastDueSince).toEqual(pastDueSince);
+
+    fake.charge(razorpaySubscriptionId);
+    await deliver();
+    expect(db.subscription![0].status).toBe("active");
+    expect(db.subscription![0].pastDueSince).toBeNull();
+  });
+
+  it("sends each scheduled reminder once with a payment link", async () => {
+    const onPaymentReminder = vi.fn(async () => {});
+    const { auth, db } = await failPayment({
+      reminderDays: [1, 3],
+      onPaymentReminder,
+    });
+
+    const first = await auth.api.processDunning({ body: {} });
+    expect(first.reminded).toEqual([]);
+
+    db.subscription![0].pastDueSince = new Date(Date.now() - 3.5 * DAY);
+    const second = await auth.api.processDunning({ body: {} });
+    expect(second.reminded).toHaveLength(1);
+    expect(onPaymentReminder).toHaveBeenCalledTimes(1);
+    expect(onPaymentReminder).toHaveBeenCalledWith(
+      {
+        subscription: expect.objectContaining({ plan: "basic" }),
+        daysPastDue: 3,
+        paymentLink: expect.stringMatching(/^https:\/\/rzp\.io\//),
+      },
+      expect.anything(),
+    );
+    expect(db.subscription![0].dunningRemindersSent).toBe(2);
+
+    const third = await auth.api.processDunning({ body: {} });
+    expect(third.reminded).toEqual([]);
+    expect(onPaymentReminder).toHaveBeenCalledTimes(1);
+  });
+
+  it("cancels once the grace period is over", async () => {
+    const onDunningEnded = vi.fn(async () => {});
+    const { auth, db, fake, razorpaySubscriptionId } = await failPayment({
+      gracePeriodDays: 7,
+      finalAction: "cancel",
+      onDunningEnded,
+    });
+
+    db.subscription![0].pastDueSince = new Date(Date.now() - 6 * DAY);
+    expect((await auth.api.processDunning({ body: {} })).ended).toEqual([]);
+
+    db.subscription![0].pastDueSince = new Date(Date.now() - 7 * DAY);
+    const { ended } = await auth.api.processDunning({ body: {} });
+    expect(ended).toHaveLength(1);
+    expect(db.subscription![0].status).toBe("cancelled");
+    expect(db.subscription![0].endedAt).toBeInstanceOf(Date);
+    const fetched = await (fake.client.subscriptions as any).fetch(
+      razorpaySubscriptionId,
+    );
+    expect(fetched.status).toBe("cancelled");
+    expect(onDunningEnded).toHaveBeenCalledWith(
+      {
+        subscription: expect.objectContaining({ status: "cancelled" }),
+        action: "cancel",
+      },
+      expect.anything(),
+    );
+  });
+
+  it("pauses locally when finalAction is pause", async () => {
+    const { auth, db } = await failPayment({
+      gracePeriodDays: 3,
+      finalAction: "pause",
+    });
+    db.subscription![0].pastDueSince = new Date(Date.now() - 4 * DAY);
+
+    await auth.api.processDunning({ body: {} });
+    expect(db.subscription![0].status).toBe("paused");
+    expect(db.subscription![0].pausedAt).toBeInstanceOf(Date);
+    expect(db.subscription![0].dunningEndedAt).toBeInstanceOf(Date);
+  });
+
+  it("applies the final action once while Razorpay keeps retrying", async () => {
+    const onDunningEnded = vi.fn(async () => {});
+    const { auth, db, fake, headers, deliver, razorpaySubscriptionId } =
+      await failPayment({
+        gracePeriodDays: 3,
+        finalAction: "pause",
+        onDunningEnded,
+      });
+    db.subscription![0].pastDueSince = new Date(Date.now() - 4 * DAY);
+    await auth.api.processDunning({ body: {} });
+
+    fake.halt(razorpaySubscriptionId);
+    await deliver();
+    expect(db.subscription![0].status).toBe("paused");
+
+    const { ended } = await auth.api.processDunning({ body: {} });
+    expect(ended).toEqual([]);
+    expect(onDunningEnded).toHaveBeenCalledTimes(1);
+
+    // Razorpay never paused the subscription, so there is nothing to resume
+    const error = await auth.api
+      .resumeSubscription({ body: {}, headers })
+      .catch((e) => e);
+    expect(error.body).toMatchObject({
+      body: { code: RAZORPAY_ERROR_CODES.SUBSCRIPTION_PAST_DUE },
+    });
+
+    fake.charge(razorpaySubscriptionId);
+    await deliver();
+    expect(db.subscription![0]).toMatchObject({
+      status: "active",
+      pastDueSince: null,
+      dunningEndedAt: null,
+    });
+  });
+
+  it("returns the payment link for a past-due subscription", async () => {
+    const { auth, headers, fake, razorpaySubscriptionId } = await failPayment(
+      {},
+    );
+
+    const { url, subscription } = await auth.api.getSubscriptionPaymentLink({
+      query: {},
+      headers,
+    });
+    const fetched = await (fake.client.subscriptions as any).fetch(
+      razorpaySubscriptionId,
+    );
+    expect(url).toBe(fetched.short_url);
+    expect(subscription.status).toBe("pending");
+  });
+
+  it("has no payment link for a cancelled subscription", async () => {
+    const { auth, headers } = await makeHarness();
+    await auth.api.upgradeSubscription({ body: { plan: "basic" }, headers });
+    await auth.api.cancelSubscription({ body: {}, headers });
+
+    const error = await auth.api
+      .getSubscriptionPaymentLink({ query: {}, headers })
+      .catch((e) => e);
+    expect(error.body).toMatchObject({
+      body: { code: RAZORPAY_ERROR_CODES.PAYMENT_LINK_NOT_AVAILABLE },
+    });
+  });
+});
+
+// ─── entitlements ────────────────────────────────────────────────────────────
+
+describe("entitlements", () => {
+  const plansWithLimits = {
+    plans: [
+      {
+        planId: "plan_basic",
+        name: "basic",
+        totalCount: 12,
+        limits: { projects: 3, sso: false },
+      },
+      {
+        planId: "plan_pro",
+        name: "pro",
+        totalCount: 12,
+        limits: { projects: 20, sso: true },
+      },
+    ],
+  };
+
+  it("returns the limits of the reference's usable subscription", async () => {
+    const { auth, headers, subscribe } = await makeHarness(plansWithLimits);
+    await subscribe("pro");
+
+    const entitlements = await auth.api.getSubscriptionEntitlements({
+      query: {},
+      headers,
+    });
+    expect(entitlements).toMatchObject({
+      plans: ["pro"],
+      limits: { projects: 20, sso: true },
+    });
+  });
+
+  it("is empty once the subscription is cancelled", async () => {
+    const { auth, headers, deliver, subscribe } =
+      await makeHarness(plansWithLimits);
+    await subscribe("pro");
+    await auth.api.cancelSubscription({ body: {}, headers });
+    await deliver();
+
+    const entitlements = await auth.api.getSubscriptionEntitlements({
+      query: {},
+      headers,
+    });
+    expect(entitlements).toMatchObject({ plans: [], limits: {} });
+  });
+
+  it("resolves any reference from the server", async () => {
+    const { auth, db, subscribe } = await makeHarness(plansWithLimits);
+    await subscribe("basic");
+
+    const entitlements = await auth.api.getEntitlements({
+      body: { referenceId: db.user![0].id },
+    });
+    expect(entitlements.limits).toEqual({ projects: 3, sso: false });
+  });
+
+  it("does not expose the server-only endpoint over HTTP", async () => {
+    const { auth, headers } = await makeHarness(plansWithLimits);
+    const request = (path: string, init?: RequestInit) =>
+      auth.handler(
+        new Request(`http://localhost:3000/api/auth${path}`, {
+          ...init,
+          headers: {
+            ...Object.fromEntries(headers),
+            "content-type": "application/json",
+          },
+        }),
+      );
+
+    expect((await request("/subscription/entitlements")).status).toBe(200);
+    const response = await request("/subscription/entitlements/resolve", {
+      method: "POST",
+      body: JSON.stringify({ referenceId: "someone-else" }),
+    });
+    expect(response.status).toBe(404);
+  });
+});
+
+// ─── usage billing ───────────────────────────────────────────────────────────
+
+describe("usage billing", () => {
+  const meteredPlans = {
+    plans: [
+      {
+        planId: "plan_basic",
+        name: "basic",
+        totalCount: 12,
+        usage: { api_calls: { unitAmount: 10, freeUnits: 100 } },
+      },
+    ],
+  };
+
+  async function reportCalls(
+    quantities: number[],
+    usageBilling?: UsageBillingOptions,
+  ) {
+    const harness = await makeHarness({ ...meteredPlans, usageBilling });
+    const razorpaySubscriptionId = await harness.subscribe("basic");
+    const referenceId = harness.db.user![0].id;
+    for (const quantity of quantities) {
+      await harness.auth.api.reportUsage({
+        body: { referenceId, metric: "api_calls", quantity },
+      });
+    }
+    // Bring the end of the cycle within the default 24 hour lead time
+    harness.db.subscription![0].currentEnd = new Date(
+      Date.now() + 60 * 60 * 1000,
+    );
+    return { ...harness, referenceId, razorpaySubscriptionId };
+  }
+
+  it("records usage against the subscription that prices the metric", async () => {
+    const { auth, db, referenceId } = await reportCalls([]);
+
+    const record = await auth.api.reportUsage({
+      body: { referenceId, metric: "api_calls", quantity: 5 },
+    });
+    expect(record).toMatchObject({
+      subscriptionId: db.subscription![0].id,
+      metric: "api_calls",
+      quantity: 5,
+    });
+
+    const error = await auth.api
+      .reportUsage({ body: { referenceId, metric: "sms", quantity: 1 } })
+      .catch((e) => e);
+    expect(error.body).toMatchObject({
+      body: { code: RAZORPAY_ERROR_CODES.USAGE_METRIC_NOT_FOUND },
+    });
+  });
+
+  it("ignores a repeated idempotencyKey", async () => {
+    const { auth, db, referenceId } = await reportCalls([]);
+    const body = {
+      referenceId,
+      metric: "api_calls",
+      quantity: 5,
+      idempotencyKey: "req_1",
+    };
+
+    const first = await auth.api.reportUsage({ body });
+    const second = await auth.api.reportUsage({ body });
+    expect(second.id).toBe(first.id);
+    expect(db.usageRecord).toHaveLength(1);
+  });
+
+  it("bills usage above the free allowance as an add-on once per cycle", async () => {
+    const onUsageBilled = vi.fn(async () => {});
+    const { auth, db, fake, deliver, razorpaySubscriptionId } =
+      await reportCalls([150, 30], { onUsageBilled });
+
+    const { billed, addons } = await auth.api.billUsage({ body: {} });
+    expect(billed).toHaveLength(1);
+    expect(addons).toHaveLength(1);
+    expect(addons[0]).toMatchObject({
+      subscription_id: razorpaySubscriptionId,
+      item: { name: "api_calls", amount: 800, currency: "INR" },
+    });
+    expect(db.usageRecord!.map((r) => r.razorpayAddonId)).toEqual([
+      addons[0]!.id,
+      addons[0]!.id,
+    ]);
+
+    expect(onUsageBilled).toHaveBeenCalledWith(
+      {
+        subscription: expect.objectContaining({ plan: "basic" }),
+        addons,
+        records: expect.arrayContaining([
+          expect.objectContaining({ quantity: 150 }),
+        ]),
+      },
+      expect.anything(),
+    );
+
+    const rerun = await auth.api.billUsage({ body: {} });
+    expect(rerun.billed).toEqual([]);
+
+    fake.charge(razorpaySubscriptionId);
+    await deliver();
+    expect(db.payment!.at(-1)!.amount).toBe(19900 + 800);
+  });
+
+  it("marks usage within the free allowance as billed without an add-on", async () => {
+    const { auth, db } = await reportCalls([60, 40]);
+
+    const { billed, addons } = await auth.api.billUsage({ body: {} });
+    expect(billed).toHaveLength(1);
+    expect(addons).toEqual([]);
+    expect(db.usageRecord!.every((r) => r.billedAt instanceof Date)).toBe(true);
+  });
+
+  it("leaves usage unbilled when Razorpay rejects the add-on", async () => {
+    const { auth, db, fake } = await reportCalls([500]);
+    (fake.client.subscriptions as any).createAddon = async () => {
+      throw new Error("Razorpay is down");
+    };
+
+    const { failed } = await auth.api.billUsage({ body: {} });
+    expect(failed).toEqual([
+      { subscriptionId: db.subscription![0].id, error: "Razorpay is down" },
+    ]);
+    expect(db.usageRecord![0]).toMatchObject({ billed: false });
+    expect(db.usageRecord![0].billedAt).toBeUndefined();
+    expect(db.subscription![0].usageBilledThrough).toBeUndefined();
+  });
+
+  it("pages past subscriptions already billed for their cycle", async () => {
+    const usage = { api_calls: { unitAmount: 10, freeUnits: 0 } };
+    const { auth, db, subscribe } = await makeHarness({
+      plans: [
+        {
+          planId: "plan_basic",
+          name: "basic",
+          group: "core",
+          totalCount: 12,
+          usage,
+        },
+        {
+          planId: "plan_pro",
+          name: "pro",
+          group: "addons",
+          totalCount: 12,
+          usage,
+        },
+      ],
+    });
+    await subscribe("basic");
+    await subscribe("pro");
+    const [basic, pro] = db.subscription!;
+    for (const subscription of [basic, pro]) {
+      await auth.api.reportUsage({
+        body: {
+          referenceId: subscription.referenceId,
+          subscriptionId: subscription.id,
+          metric: "api_calls",
+          quantity: 5,
+        },
+      });
+    }
+    basic.currentEnd = new Date(Date.now() + 60 * 60 * 1000);
+    pro.currentEnd = new Date(Date.now() + 2 * 60 * 60 * 1000);
+
+    const first = await auth.api.billUsage({ body: { limit: 1 } });
+    expect(first.billed.map((s) => s.id)).toEqual([basic.id]);
+
+    const second = await auth.api.billUsage({ body: { limit: 1 } });
+    expect(second.billed.map((s) => s.id)).toEqual([pro.id]);
+  });
+
+  it("bills late usage against the free allowance of its own cycle", async () => {
+    const { auth, db, fake, deliver, referenceId, razorpaySubscriptionId } =
+      await reportCalls([]);
+    const report = (quantity: number) =>
+      auth.api.reportUsage({
+        body: { referenceId, metric: "api_calls", quantity },
+      });
+
+    await report(150);
+    await auth.api.billUsage({ body: {} });
+    // Reported after the cycle was billed, before it ended
+    await report(30);
+
+    fake.charge(razorpaySubscriptionId);
+    await deliver();
+    await report(60);
+    db.subscription![0].currentEnd = new Date(Date.now() + 60 * 60 * 1000);
+
+    const { addons } = await auth.api.billUsage({ body: {} });
+    // The late 30 calls are all above the first cycle's allowance, while
+    // the next cycle's 60 calls stay within its own
+    expect(addons).toHaveLength(1);
+    expect(addons[0]!.item).toMatchObject({ amount: 300 });
+    expect(db.usageRecord!.every((r) => r.billedAt instanceof Date)).toBe(true);
+  });
+});
+
+// ─── restoreSubscription ─────────────────────────────────────────────────────
+
+describe("restoreSubscription", () => {
+  async function cancelAtCycleEnd() {
+    const harness = await makeHarness();
+    const razorpaySubscriptionId = await harness.subscribe("basic");
+    await harness.auth.api.cancelSubscription({
+      body: { cancelAtCycleEnd: true },
+      headers: harness.headers,
+    });
+    return { ...harness, razorpaySubscriptionId };
+  }
+
+  it("creates a linked continuation starting at the cycle end", async () => {
+    const { auth, db, headers } = await cancelAtCycleEnd();
+    const current = db.subscription![0];
+
+    const { subscription, nextSubscription, razorpaySubscription } =
+      await auth.api.restoreSubscription({ body: {}, headers });
+
+    expect(subscription).toMatchObject({
+      id: current.id,
+      cancelAtCycleEnd: true,
+      nextSubscriptionId: nextSubscription.id,
+    });
+    expect(nextSubscription).toMatchObject({
+      plan: "basic",
+      status: "created",
+      razorpayPlanId: "plan_basic",
+      razorpayCustomerId: current.razorpayCustomerId,
+      razorpaySubscriptionId: razorpaySubscription.id,
+      previousSubscriptionId: current.id,
+      totalCount: 12,
+    });
+    expect(razorpaySubscription.start_at).toBe(
+      Math.floor(current.currentEnd.getTime() / 1000),
+    );
+    expect(razorpaySubscription.notes).toMatchObject({
+      subscriptionId: nextSubscription.id,
+    });
+  });
+
+  it("hands over to the continuation when the cycle ends", async () => {
+    const { auth, db, fake, headers, deliver, razorpaySubscriptionId } =
+      await cancelAtCycleEnd();
+    const { nextSubscription, razorpaySubscription } =
+      await auth.api.restoreSubscription({ body: {}, headers });
+
+    fake.charge(razorpaySubscriptionId);
+    fake.authenticate(razorpaySubscription.id);
+    fake.charge(razorpaySubscription.id);
+    await deliver();
+
+    const [previous, next] = db.subscription!;
+    expect(previous.status).toBe("cancelled");
+    expect(next).toMatchObject({
+      id: nextSubscription.id,
+      status: "active",
+      previousSubscriptionId: previous.id,
+    });
+  });
+
+  it("rejects a subscription that is not pending cancellation", async () => {
+    const { auth, headers, subscribe } = await makeHarness();
+    await subscribe("basic");
+
+    const error = await auth.api
+      .restoreSubscription({ body: {}, headers })
+      .catch((e) => e);
+    expect(error.body).toMatchObject({
+      body: { code: RAZORPAY_ERROR_CODES.SUBSCRIPTION_NOT_PENDING_CANCEL },
+    });
+  });
+
+  it("restores a subscription only once", async () => {
+    const { auth, db, headers } = await cancelAtCycleEnd();
+    const subscriptionId = db.subscription![0].id;
+    await auth.api.restoreSubscription({ body: {}, headers });
+
+    const error = await auth.api
+      .restoreSubscription({ body: { subscriptionId }, headers })
+      .catch((e) => e);
+    expect(error.body).toMatchObject({
+      body: { code: RAZORPAY_ERROR_CODES.SUBSCRIPTION_ALREADY_RESTORED },
+    });
+    expect(db.subscription).toHaveLength(2);
+  });
+
+  it("removes the continuation when Razorpay rejects it", async () => {
+    const { auth, db, fake, headers } = await cancelAtCycleEnd();
+    (fake.client.subscriptions as any).create = async () => {
+      throw new Error("Razorpay is down");
+    };
+
+    const error = await auth.api
+      .restoreSubscription({ body: {}, headers })
+      .catch((e) => e);
+    expect(error.body).toMatchObject({
+      body: { code: RAZORPAY_ERROR_CODES.SUBSCRIPTION_RESTORE_FAILED },
+    });
+    expect(db.subscription).toHaveLength(1);
+    expect(db.subscription![0].nextSubscriptionId).toBeUndefined();
+  });
+});
+
+// ─── Subscription Selection ──────────────────────────────────────────────────
+
+describe("subscription selection", () => {
+  const groupedPlans = {
+    plans: [
+      { planId: "plan_basic", name: "basic", group: "core", totalCount: 12 },
+      { planId: "plan_pro", name: "pro", group: "addons", totalCount: 12 },
+    ],
+  };
+
+  it("defaults to the newest non-terminal subscription", async () => {
+    const { auth, db, headers, subscribe } = await makeHarness(groupedPlans);
+    await subscribe("basic");
+    await subscribe("pro");
+
+    const { subscription } = await auth.api.cancelSubscription({
+      body: {},
+      headers,
+    });
+    expect(subscription.plan).toBe("pro");
+
+    const next = await auth.api.cancelSubscription({ body: {}, headers });
+    expect(next.subscription.plan).toBe("basic");
+    expect(db.subscription!.map((s) => s.status)).toEqual([
+      "cancelled",
+      "cancelled",
+    ]);
+  });
+
+  it("targets the subscription named by subscriptionId", async () => {
+    const { auth, db, headers, subscribe } = await makeHarness(groupedPlans);
+    await subscribe("basic");
+    await subscribe("pro");
+    const basic = db.subscription!.find((s) => s.plan === "basic");
+
+    const { subscription } = await auth.api.pauseSubscription({
+      body: { subscriptionId: basic.id },
+      headers,
+    });
+    expect(subscription).toMatchObject({ id: basic.id, status: "paused" });
+    expect(db.subscription!.find((s) => s.plan === "pro").status).toBe(
+      "active",
+    );
+  });
+
+  it("targets the subscription in groupId", async () => {
+    const { auth, db, headers, subscribe } = await makeHarness(groupedPlans);
+    await subscribe("basic");
+    await subscribe("pro");
+
+    const { subscription } = await auth.api.cancelSubscription({
+      body: { groupId: "core", cancelAtCycleEnd: true },
+      headers,
+    });
+    expect(subscription).toMatchObject({
+      plan: "basic",
+      cancelAtCycleEnd: true,
+    });
+
+    const restored = await auth.api.restoreSubscription({
+      body: { groupId: "core" },
+      headers,
+    });
+    expect(restored.subscription.plan).toBe("basic");
+    expect(restored.nextSubscription.groupId).toBe("core");
+    expect(
+      db.subscription!.find((s) => s.plan === "pro").nextSubscriptionId,
+    ).toBeUndefined();
+  });
+
+  it("rejects a subscription outside the authorized reference", async () => {
+    const { auth, db, headers } = await makeHarness();
+    db.subscription!.push({
+      id: "sub_other",
+      plan: "basic",
+      referenceId: "someone-else",
+      razorpaySubscriptionId: "sub_rzp_other",
+      status: "active",
+      createdAt: new Date(),
+    });
+
+    const error = await auth.api
+      .cancelSubscription({ body: { subscriptionId: "sub_other" }, headers })
+      .catch((e) => e);
+    expect(error.body).toMatchObject({
+      body: { code: RAZORPAY_ERROR_CODES.SUBSCRIPTION_NOT_FOUND },
+    });
+    expect(db.subscription![0].status).toBe("active");
+  });
+
+  it("rejects a subscriptionId outside groupId", async () => {
+    const { auth, db, headers, subscribe } = await makeHarness(groupedPlans);
+    await subscribe("basic");
+    const basic = db.subscription![0];
+
+    const error = await auth.api
+      .updateSubscription({
+        body: { subscriptionId: basic.id, groupId: "addons", quantity: 2 },
+        headers,
+      })
+      .catch((e) => e);
+    expect(error.body).toMatchObject({
+      body: { code: RAZORPAY_ERROR_CODES.SUBSCRIPTION_NOT_FOUND },
+    });
+  });
+});
@@ -1,5 +1,17 @@
 import { describe, expect, it } from "vitest";
-import { getSchema, organization, subscriptions, user } from "../schema";
+import {
+  disputes,
+  getSchema,
+  invoices,
+  organization,
+  payments,
+  refunds,
+  subscriptions,
+  usageRecords,
+  user,
+  webhookDeadLetters,
+  webhookEvents,
+} from "../schema";
 import type { RazorpayOptions } from "../types";
 
 // ─── Raw Schema Definitions ─────────────────────────────────────────────────
@@ -30,6 +42,7 @@ describe("subscriptions schema", () => {
       "pausedAt",
       "shortUrl",
       "cancelAtCycleEnd",
+      "groupId",
       "billingPeriod",
     ];
 
@@ -72,6 +85,116 @@ describe("organization schema", () => {
   });
 });
 
+describe("webhook event schema", () => {
+  it("defines a razorpayWebhookEvent model keyed on a unique eventId", () => {
+    const fields = webhookEvents.razorpayWebhookEvent.fields;
+    expect(fields.eventId.required).toBe(true);
+    expect(fields.eventId.unique).toBe(true);
+    expect(fields).toHaveProperty("status");
+    expect(fields).toHaveProperty("processedAt");
+  });
+});
+
+describe("webhook dead letter schema", () => {
+  it("stores the raw payload, headers, error and attempt count", () => {
+    const fields = webhookDeadLetters.razorpayWebhookDeadLetter.fields;
+    for (const field of ["payload", "headers", "error", "attempts", "status"]) {
+      expect(fields).toHaveProperty(field);
+    }
+    expect(fields.attempts.defaultValue).toBe(1);
+  });
+});
+
+describe("payment schema", () => {
+  it("defines a payment model keyed on a unique razorpayPaymentId", () => {
+    const fields = payments.payment.fields;
+    expect(fields.razorpayPaymentId.unique).toBe(true);
+    for (const field of [
+      "subscriptionId",
+      "referenceId",
+      "amount",
+      "currency",
+      "method",
+      "errorCode",
+      "errorDescription",
+    ]) {
+      expect(fields).toHaveProperty(field);
+    }
+  });
+});
+
+describe("invoice schema", () => {
+  it("defines an invoice model keyed on a unique razorpayInvoiceId", () => {
+    const fields = invoices.invoice.fields;
+    expect(fields.razorpayInvoiceId.unique).toBe(true);
+    for (const field of [
+      "invoiceNumber",
+      "subscriptionId",
+      "amount",
+      "taxAmount",
+      "status",
+      "shortUrl",
+      "billingStart",
+      "billingEnd",
+    ]) {
+      expect(fields).toHaveProperty(field);
+    }
+  });
+});
+
+describe("refund schema", () => {
+  it("defines a refund model keyed on a unique razorpayRefundId", () => {
+    const fields = refunds.refund.fields;
+    expect(fields.razorpayRefundId.unique).toBe(true);
+    for (const field of [
+      "razorpayPaymentId",
+      "paymentId",
+      "subscriptionId",
+      "amount",
+      "status",
+      "speedRequested",
+      "processedAt",
+    ]) {
+      expect(fields).toHaveProperty(field);
+    }
+  });
+});
+
+describe("dispute schema", () => {
+  it("defines a dispute model keyed on a unique razorpayDisputeId", () => {
+    const fields = disputes.dispute.fields;
+    expect(fields.razorpayDisputeId.unique).toBe(true);
+    for (const field of [
+      "razorpayPaymentId",
+      "subscriptionId",
+      "status",
+      "phase",
+      "respondBy",
+      "resolvedAt",
+    ]) {
+      expect(fields).toHaveProperty(field);
+    }
+  });
+});
+
+describe("usage record schema", () => {
+  it("stores usage per subscription and metric", () => {
+    const fields = usageRecords.usageRecord.fields;
+    for (const field of [
+      "referenceId",
+      "subscriptionId",
+      "metric",
+      "quantity",
+    ]) {
+      expect(fields[field as keyof typeof fields].required).toBe(true);
+    }
+    expect(fields.idempotencyKey.unique).toBe(true);
+    expect(fields.billed.defaultValue).toBe(false);
+    expect(fields).toHaveProperty("billedAt");
+    expect(fields).toHaveProperty("razorpayAddonId");
+  });
+});
+
 // ─── getSchema ──────────────────────────────────────────────────────────────
 
 describe("getSchema", () => {
@@ -86,6 +209,10 @@ describe("getSchema", () => {
     expect(schema).not.toHaveProperty("subscription");
   });
 
+  it("always includes the webhook event ledger", () => {
+    expect(getSchema(baseOptions)).toHaveProperty("razorpayWebhookEvent");
+  });
+
   it("returns user + subscription schema when subscriptions enabled", () => {
     const schema = getSchema({
       ...baseOptions,
@@ -96,6 +223,7 @@ describe("getSchema", () => {
     } as any);
     expect(schema).toHaveProperty("user");
     expect(schema).toHaveProperty("subscription");
+    expect(schema).toHaveProperty("usageRecord");
   });
 
   it("includes organization schema when organization enabled", () => {
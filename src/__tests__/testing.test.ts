@@ -0,0 +1,414 @@
+import { betterAuth } from "better-auth";
+import { memoryAdapter } from "better-auth/adapters/memory";
+import { describe, expect, it } from "vitest";
+import { razorpay } from "../index";
+import {
+  createDisputeEvent,
+  createFakeRazorpay,
+  createInvoiceEvent,
+  createPaymentEvent,
+  createRazorpaySubscription,
+  createRefundEvent,
+  createSignedWebhookRequest,
+  createSubscriptionEvent,
+  signWebhookPayload,
+} from "../testing";
+import { verifyWebhookSignature } from "../webhook";
+
+// ─── Entity Factories ────────────────────────────────────────────────────────
+
+describe("createRazorpaySubscription", () => {
+  it("uses realistic defaults", () => {
+    const sub = createRazorpaySubscription();
+    expect(sub.id).toMatch(/^sub_[0-9a-f]{14}$/);
+    expect(sub.entity).toBe("subscription");
+    expect(sub.status).toBe("active");
+    expect(sub.current_end! - sub.current_start!).toBe(30 * 24 * 60 * 60);
+    // Razorpay timestamps are in seconds
+    expect(sub.created_at).toBeLessThan(Date.now() / 100);
+  });
+
+  it("applies overrides", () => {
+    const sub = createRazorpaySubscription({
+      id: "sub_123",
+      notes: { referenceId: "user_1" },
+    });
+    expect(sub.id).toBe("sub_123");
+    expect(sub.notes).toEqual({ referenceId: "user_1" });
+  });
+});
+
+// ─── Event Factories ─────────────────────────────────────────────────────────
+
+describe("createSubscriptionEvent", () => {
+  it("derives the status from the event", () => {
+    expect(
+      createSubscriptionEvent("subscription.halted").payload.subscription.entity
+        .status,
+    ).toBe("halted");
+    expect(
+      createSubscriptionEvent("subscription.resumed").payload.subscription
+        .entity.status,
+    ).toBe("active");
+  });
+
+  it("includes a payment for subscription.charged", () => {
+    const event = createSubscriptionEvent("subscription.charged", {
+      customer_id: "cust_1",
+    });
+    expect(event.event).toBe("subscription.charged");
+    expect(event.contains).toEqual(["subscription", "payment"]);
+    expect(event.payload.payment?.entity.customer_id).toBe("cust_1");
+  });
+
+  it("omits the payment for other events", () => {
+    const event = createSubscriptionEvent("subscription.cancelled");
+    expect(event.contains).toEqual(["subscription"]);
+    expect(event.payload.subscription.entity.ended_at).not.toBeNull();
+  });
+});
+
+describe("payment, invoice, refund and dispute events", () => {
+  it("marks failed payments", () => {
+    const entity = createPaymentEvent("payment.failed").payload.payment.entity;
+    expect(entity.status).toBe("failed");
+    expect(entity.captured).toBe(false);
+    expect(entity.error_code).toBe("BAD_REQUEST_ERROR");
+  });
+
+  it("links an invoice to its payment", () => {
+    const { payload } = createInvoiceEvent("invoice.paid", {
+      subscription_id: "sub_1",
+    });
+    expect(payload.invoice.entity.payment_id).toBe(payload.payment?.entity.id);
+    expect(payload.invoice.entity.subscription_id).toBe("sub_1");
+  });
+
+  it("links a refund to its payment", () => {
+    const { payload } = createRefundEvent("refund.processed");
+    expect(payload.refund.entity.status).toBe("processed");
+    expect(payload.refund.entity.payment_id).toBe(payload.payment.entity.id);
+  });
+
+  it("links a dispute to its payment", () => {
+    const { payload } = createDisputeEvent("payment.dispute.lost");
+    expect(payload.dispute.entity.status).toBe("lost");
+    expect(payload.dispute.entity.payment_id).toBe(payload.payment.entity.id);
+  });
+});
+
+// ─── Signed Requests ─────────────────────────────────────────────────────────
+
+describe("createSignedWebhookRequest", () => {
+  it("builds a request that passes signature verification", async () => {
+    const event = createSubscriptionEvent("subscription.activated");
+    const request = createSignedWebhookRequest(event, {
+      secret: "whsec",
+      eventId: "evt_1",
+    });
+
+    expect(request.method).toBe("POST");
+    expect(request.url).toBe("http://localhost:3000/api/auth/razorpay/webhook");
+    expect(request.headers.get("x-razorpay-event-id")).toBe("evt_1");
+
+    const body = await request.text();
+    const signature = request.headers.get("x-razorpay-signature")!;
+    expect(signature).toBe(signWebhookPayload(body, "whsec"));
+    expect(verifyWebhookSignature(body, signature, ["whsec"])).toBe(0);
+    expect(JSON.parse(body)).toEqual(event);
+  });
+
+  it("respects baseURL and basePath", () => {
+    const request = createSignedWebhookRequest(
+      createPaymentEvent("payment.captured"),
+      { secret: "whsec", baseURL: "https://app.test/", basePath: "/auth" },
+    );
+    expect(request.url).toBe("https://app.test/auth/razorpay/webhook");
+    expect(request.headers.get("x-razorpay-event-id")).toMatch(/^evt_/);
+  });
+});
+
+// ─── Fake Razorpay Client ────────────────────────────────────────────────────
+
+function makeFake() {
+  const fake = createFakeRazorpay({
+    plans: [
+      { id: "plan_basic", amount: 19900 },
+      { id: "plan_pro", amount: 49900 },
+    ],
+    offers: ["offer_launch"],
+  });
+  return { fake, client: fake.client as any };
+}
+
+describe("createFakeRazorpay", () => {
+  it("rejects unknown IDs like the SDK", async () => {
+    const { client } = makeFake();
+    await expect(
+      client.subscriptions.fetch("sub_missing"),
+    ).rejects.toMatchObject({
+      statusCode: 400,
+      error: { code: "BAD_REQUEST_ERROR" },
+    });
+    await expect(
+      client.subscriptions.create({ plan_id: "plan_missing", total_count: 12 }),
+    ).rejects.toThrow("does not exist");
+  });
+
+  it("returns the existing customer when fail_existing is 0", async () => {
+    const { client } = makeFake();
+    const params = { name: "Ada", email: "ada@example.com" };
+    const customer = await client.customers.create(params);
+
+    await expect(
+      client.customers.create({ ...params, fail_existing: "0" }),
+    ).resolves.toMatchObject({ id: customer.id });
+    await expect(client.customers.create(params)).rejects.toThrow(
+      "already exists",
+    );
+  });
+
+  it("walks a subscription through its lifecycle", async () => {
+    const { fake, client } = makeFake();
+    const created = await client.subscriptions.create({
+      plan_id: "plan_pro",
+      total_count: 2,
+    });
+    expect(created.status).toBe("created");
+
+    fake.authenticate(created.id);
+    const active = fake.charge(created.id);
+    expect(active).toMatchObject({
+      status: "active",
+      paid_count: 1,
+      remaining_count: 1,
+    });
+    expect(fake.flushEvents().map((e) => e.event)).toEqual([
+      "subscription.authenticated",
+      "subscription.activated",
+      "subscription.charged",
+      "invoice.paid",
+    ]);
+
+    const completed = fake.charge(created.id);
+    expect(completed.status).toBe("completed");
+    expect(completed.current_start).toBe(active.current_end);
+    expect(fake.flushEvents().map((e) => e.event)).toEqual([
+      "subscription.charged",
+      "invoice.paid",
+      "subscription.completed",
+    ]);
+
+    const invoices = await client.invoices.all({ subscription_id: created.id });
+    expect(invoices.count).toBe(2);
+  });
+
+  it("applies scheduled changes on renewal", async () => {
+    const { fake, client } = makeFake();
+    const { id } = await client.subscriptions.create({
+      plan_id: "plan_basic",
+      total_count: 12,
+    });
+    fake.charge(id);
+
+    const scheduled = await client.subscriptions.update(id, {
+      plan_id: "plan_pro",
+      schedule_change_at: "cycle_end",
+    });
+    expect(scheduled).toMatchObject({
+      plan_id: "plan_basic",
+      has_scheduled_changes: true,
+    });
+    await expect(client.subscriptions.pendingUpdate(id)).resolves.toMatchObject(
+      { plan_id: "plan_pro" },
+    );
+
+    fake.flushEvents();
+    const renewed = fake.charge(id);
+    expect(renewed).toMatchObject({
+      plan_id: "plan_pro",
+      has_scheduled_changes: false,
+    });
+    const [updated, charged] = fake.flushEvents();
+    expect(updated?.event).toBe("subscription.updated");
+    expect(charged?.payload.payment?.entity.amount).toBe(49900);
+  });
+
+  it("cancels at cycle end instead of renewing", async () => {
+    const { fake, client } = makeFake();
+    const { id } = await client.subscriptions.create({
+      plan_id: "plan_pro",
+      total_count: 12,
+    });
+    fake.charge(id);
+    await client.subscriptions.cancel(id, true);
+    expect((await client.subscriptions.fetch(id)).status).toBe("active");
+
+    fake.flushEvents();
+    expect(fake.charge(id).status).toBe("cancelled");
+    expect(fake.flushEvents().map((e) => e.event)).toEqual([
+      "subscription.cancelled",
+    ]);
+  });
+
+  it("pauses, resumes and rejects invalid transitions", async () => {
+    const { fake, client } = makeFake();
+    const { id } = await client.subscriptions.create({
+      plan_id: "plan_pro",
+      total_count: 12,
+    });
+    await expect(client.subscriptions.pause(id)).rejects.toThrow(
+      "created status",
+    );
+
+    fake.charge(id);
+    await client.subscriptions.pause(id, { pause_at: "now" });
+    expect(() => fake.charge(id)).toThrow("Paused");
+    await client.subscriptions.resume(id, { resume_at: "now" });
+    expect(fake.events.slice(-2).map((e) => e.event)).toEqual([
+      "subscription.paused",
+      "subscription.resumed",
+    ]);
+  });
+
+  it("moves to pending and halted on failed charges", async () => {
+    const { fake, client } = makeFake();
+    const { id } = await client.subscriptions.create({
+      plan_id: "plan_pro",
+      total_count: 12,
+    });
+    fake.charge(id);
+    fake.flushEvents();
+
+    expect(fake.failCharge(id)).toMatchObject({
+      status: "pending",
+      auth_attempts: 1,
+    });
+    expect(fake.halt(id).status).toBe("halted");
+    expect(fake.flushEvents().map((e) => e.event)).toEqual([
+      "payment.failed",
+      "subscription.pending",
+      "subscription.halted",
+    ]);
+  });
+
+  it("bills add-ons on the next charge", async () => {
+    const { fake, client } = makeFake();
+    const { id } = await client.subscriptions.create({
+      plan_id: "plan_pro",
+      total_count: 12,
+    });
+    fake.charge(id);
+
+    const addon = await client.subscriptions.createAddon(id, {
+      item: { name: "api_calls", amount: 500, currency: "INR" },
+      quantity: 2,
+    });
+    expect(addon).toMatchObject({ subscription_id: id, invoice_id: null });
+
+    fake.flushEvents();
+    fake.charge(id);
+    const charged = fake
+      .flushEvents()
+      .find((e) => e.event === "subscription.charged")!;
+    expect(charged.payload.payment!.entity.amount).toBe(49900 + 1000);
+    await expect(
+      client.subscriptions.fetchAddon(addon.id),
+    ).resolves.toMatchObject({
+      invoice_id: charged.payload.payment!.entity.invoice_id,
+    });
+  });
+
+  it("links offers and refunds captured payments", async () => {
+    const { fake, client } = makeFake();
+    const { id } = await client.subscriptions.create({
+      plan_id: "plan_pro",
+      total_count: 12,
+    });
+    await expect(
+      client.subscriptions.update(id, { offer_id: "offer_missing" }),
+    ).rejects.toThrow("does not exist");
+    await client.subscriptions.update(id, { offer_id: "offer_launch" });
+    const withoutOffer = await client.subscriptions.deleteOffer(
+      id,
+      "offer_launch",
+    );
+    expect(withoutOffer.offer_id).toBeUndefined();
+
+    fake.charge(id);
+    const payment = fake.flushEvents()[1]!.payload.payment!.entity;
+    const refund = await client.payments.refund(payment.id, { amount: 10000 });
+    expect(refund).toMatchObject({ amount: 10000, status: "processed" });
+    await expect(
+      client.payments.refund(payment.id, { amount: 49900 }),
+    ).rejects.toThrow("greater than amount captured");
+    expect(fake.flushEvents().map((e) => e.event)).toEqual([
+      "refund.processed",
+    ]);
+  });
+
+  it("drives the plugin through upgrade, renewal and cancellation", async () => {
+    const { fake } = makeFake();
+    const db: Record<string, any[]> = Object.fromEntries(
+      [
+        "user",
+        "session",
+        "account",
+        "verification",
+        "subscription",
+        "payment",
+        "invoice",
+        "refund",
+        "dispute",
+        "razorpayWebhookEvent",
+        "razorpayWebhookDeadLetter",
+      ].map((model) => [model, []]),
+    );
+    const auth = betterAuth({
+      baseURL: "http://localhost:3000",
+      secret: "better-auth-secret-for-tests-only",
+      database: memoryAdapter(db),
+      emailAndPassword: { enabled: true },
+      plugins: [
+        razorpay({
+          razorpayClient: fake.client,
+          razorpayWebhookSecret: "whsec",
+          createCustomerOnSignUp: true,
+          subscription: {
+            enabled: true,
+            plans: [{ planId: "plan_pro", name: "pro", totalCount: 12 }],
+          },
+        }),
+      ],
+    });
+    const signUp = await auth.api.signUpEmail({
+      body: { email: "ada@example.com", password: "password123", name: "Ada" },
+      returnHeaders: true,
+    });
+    const headers = new Headers({ cookie: signUp.headers.get("set-cookie")! });
+
+    const { razorpaySubscription } = await auth.api.upgradeSubscription({
+      body: { plan: "pro" },
+      headers,
+    });
+    fake.authenticate(razorpaySubscription.id);
+    fake.charge(razorpaySubscription.id);
+    const responses = await fake.deliverEvents(auth.handler, {
+      secret: "whsec",
+    });
+    expect(responses.map((r) => r.status)).toEqual([200, 200, 200, 200]);
+    expect(db.subscription![0]).toMatchObject({
+      status: "active",
+      paidCount: 1,
+    });
+
+    fake.charge(razorpaySubscription.id);
+    await fake.deliverEvents(auth.handler, { secret: "whsec" });
+    expect(db.subscription![0]).toMatchObject({ paidCount: 2 });
+    expect(db.invoice).toHaveLength(2);
+
+    await auth.api.cancelSubscription({ body: {}, headers });
+    await fake.deliverEvents(auth.handler, { secret: "whsec" });
+    expect(db.subscription![0]).toMatchObject({ status: "cancelled" });
+  });
+});
@@ -1,19 +1,28 @@
 import { APIError } from "better-call";
 import { describe, expect, it, vi } from "vitest";
-import type { RazorpayOptions, RazorpayPlan } from "../types";
+import type { RazorpayOptions, RazorpayPlan, Subscription } from "../types";
 import {
+  addBillingCycle,
   createAPIError,
+  estimateProration,
   getPlanByName,
   getPlanByPlanId,
   getPlans,
+  hasFeature,
   hasPaymentIssue,
+  isInGracePeriod,
+  invokeCallback,
   isActive,
   isAuthenticated,
   isCancelled,
   isPaused,
   isTerminal,
   isUsable,
+  resolveEntitlements,
+  selectSubscription,
+  RazorpayCallbackError,
   timestampToDate,
+  toMonthlyAmount,
   toSubscriptionStatus,
 } from "../utils";
 
@@ -60,6 +69,33 @@ describe("createAPIError", () => {
   });
 });
 
+// ─── invokeCallback ──────────────────────────────────────────────────────────
+
+describe("invokeCallback", () => {
+  it("calls the callback with the given arguments", async () => {
+    const callback = vi.fn();
+    await invokeCallback("onEvent", callback, { id: 1 }, "ctx");
+    expect(callback).toHaveBeenCalledWith({ id: 1 }, "ctx");
+  });
+
+  it("does nothing when the callback is undefined", async () => {
+    await expect(invokeCallback("onEvent", undefined)).resolves.toBeUndefined();
+  });
+
+  it("wraps errors in a RazorpayCallbackError", async () => {
+    const cause = new Error("boom");
+    const error = await invokeCallback(
+      "onPaymentCaptured",
+      vi.fn().mockRejectedValue(cause),
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(RazorpayCallbackError);
+    expect(error.callback).toBe("onPaymentCaptured");
+    expect(error.message).toBe("onPaymentCaptured callback failed: boom");
+    expect(error.cause).toBe(cause);
+  });
+});
+
 // ─── getPlans ────────────────────────────────────────────────────────────────
 
 describe("getPlans", () => {
@@ -182,6 +218,10 @@ describe("isUsable", () => {
     const expected = ["active", "authenticated"].includes(status);
     expect(isUsable({ status })).toBe(expected);
   });
+
+  it("counts card-less trials as usable", () => {
+    expect(isUsable({ status: "trialing" })).toBe(true);
+  });
 });
 
 describe("hasPaymentIssue", () => {
@@ -191,6 +231,38 @@ describe("hasPaymentIssue", () => {
   });
 });
 
+// ─── isInGracePeriod ─────────────────────────────────────────────────────────
+
+describe("isInGracePeriod", () => {
+  const now = new Date("2024-06-10T00:00:00Z");
+  const pastDueSince = new Date("2024-06-05T00:00:00Z");
+
+  it("is true for a pending subscription inside the grace period", () => {
+    expect(isInGracePeriod({ status: "pending", pastDueSince }, 7, now)).toBe(
+      true,
+    );
+  });
+
+  it("is false once the grace period is over", () => {
+    expect(isInGracePeriod({ status: "pending", pastDueSince }, 5, now)).toBe(
+      false,
+    );
+  });
+
+  it("is false for halted subscriptions", () => {
+    expect(isInGracePeriod({ status: "halted", pastDueSince }, 7, now)).toBe(
+      false,
+    );
+  });
+
+  it("is false without a grace period or pastDueSince", () => {
+    expect(isInGracePeriod({ status: "pending", pastDueSince }, 0, now)).toBe(
+      false,
+    );
+    expect(isInGracePeriod({ status: "pending" }, 7, now)).toBe(false);
+  });
+});
+
 // ─── timestampToDate ─────────────────────────────────────────────────────────
 
 describe("timestampToDate", () => {
@@ -228,3 +300,246 @@ describe("toSubscriptionStatus", () => {
     expect(toSubscriptionStatus("")).toBe("created");
   });
 });
+
+// ─── selectSubscription ──────────────────────────────────────────────────────
+
+describe("selectSubscription", () => {
+  const subs = [
+    { id: "s3", status: "cancelled", groupId: "core" },
+    { id: "s2", status: "active", groupId: "addons" },
+    { id: "s1", status: "active", groupId: "core" },
+  ].map((s) => ({
+    plan: "p",
+    referenceId: "u1",
+    createdAt: new Date(),
+    ...s,
+  })) as Subscription[];
+
+  it("selects by subscriptionId", () => {
+    expect(selectSubscription(subs, { subscriptionId: "s1" })?.id).toBe("s1");
+    expect(
+      selectSubscription(subs, { subscriptionId: "nope" }),
+    ).toBeUndefined();
+  });
+
+  it("defaults to the newest non-terminal subscription", () => {
+    expect(selectSubscription(subs, {})?.id).toBe("s2");
+    expect(selectSubscription(subs, { groupId: "core" })?.id).toBe("s1");
+  });
+
+  it("falls back to the newest subscription when all are terminal", () => {
+    expect(selectSubscription([subs[0]!], {})?.id).toBe("s3");
+  });
+
+  it("requires subscriptionId to be in groupId", () => {
+    expect(
+      selectSubscription(subs, { subscriptionId: "s1", groupId: "addons" }),
+    ).toBeUndefined();
+  });
+});
+
+// ─── Entitlements ────────────────────────────────────────────────────────────
+
+describe("resolveEntitlements", () => {
+  const plans: RazorpayPlan[] = [
+    {
+      planId: "plan_basic",
+      name: "basic",
+      limits: { projects: 3, sso: false, regions: ["in"] },
+    },
+    {
+      planId: "plan_pro",
+      name: "pro",
+      limits: { projects: 20, sso: true, regions: ["in", "us"] },
+    },
+    {
+      planId: "plan_storage",
+      name: "storage",
+      group: "addons",
+      limits: { projects: 5, storageGb: 100, regions: ["eu"] },
+    },
+  ];
+  const makeSubs = (
+    rows: Pick<Subscription, "id" | "plan" | "status" | "groupId">[],
+  ) =>
+    rows.map((row) => ({
+      referenceId: "u1",
+      createdAt: new Date(),
+      ...row,
+    })) as Subscription[];
+
+  it("merges the limits of the newest usable subscription per group", () => {
+    const entitlements = resolveEntitlements(
+      "u1",
+      makeSubs([
+        { id: "s3", plan: "storage", status: "active", groupId: "addons" },
+        { id: "s2", plan: "pro", status: "cancelled" },
+        { id: "s1", plan: "basic", status: "active" },
+      ]),
+      plans,
+    );
+    expect(entitlements).toMatchObject({
+      referenceId: "u1",
+      plans: ["storage", "basic"],
+      limits: {
+        projects: 5,
+        storageGb: 100,
+        sso: false,
+        regions: ["eu", "in"],
+      },
+    });
+    expect(entitlements.subscriptions.map((s) => s.id)).toEqual(["s3", "s1"]);
+  });
+
+  it("counts only one subscription per group", () => {
+    const entitlements = resolveEntitlements(
+      "u1",
+      makeSubs([
+        { id: "s2", plan: "basic", status: "trialing" },
+        { id: "s1", plan: "pro", status: "active" },
+      ]),
+      plans,
+    );
+    expect(entitlements.plans).toEqual(["basic"]);
+    expect(entitlements.limits.projects).toBe(3);
+  });
+
+  it("includes pending subscriptions within the grace period", () => {
+    const now = new Date("2024-06-10T00:00:00Z");
+    const subs = makeSubs([{ id: "s1", plan: "pro", status: "pending" }]);
+    subs[0]!.pastDueSince = new Date("2024-06-08T00:00:00Z");
+
+    expect(resolveEntitlements("u1", subs, plans, 3, now).plans).toEqual([
+      "pro",
+    ]);
+    expect(resolveEntitlements("u1", subs, plans, 1, now).plans).toEqual([]);
+  });
+
+  it("returns empty entitlements without usable subscriptions", () => {
+    const entitlements = resolveEntitlements(
+      "u1",
+      makeSubs([{ id: "s1", plan: "pro", status: "paused" }]),
+      plans,
+    );
+    expect(entitlements).toMatchObject({ plans: [], limits: {} });
+  });
+});
+
+describe("hasFeature", () => {
+  const entitlements = {
+    limits: { sso: true, audit: false, seats: 0, projects: 3, tier: "gold" },
+  };
+
+  it.each([
+    ["sso", true],
+    ["audit", false],
+    ["seats", false],
+    ["projects", true],
+    ["tier", true],
+    ["missing", false],
+  ])("feature '%s'", (feature, expected) => {
+    expect(hasFeature(entitlements, feature)).toBe(expected);
+  });
+});
+
+// ─── Billing Cycles & Proration ──────────────────────────────────────────────
+
+describe("addBillingCycle", () => {
+  const start = new Date("2024-01-31T00:00:00Z");
+
+  it("advances by the plan period and interval", () => {
+    expect(addBillingCycle(start, "daily", 3).toISOString()).toBe(
+      "2024-02-03T00:00:00.000Z",
+    );
+    expect(addBillingCycle(start, "weekly").toISOString()).toBe(
+      "2024-02-07T00:00:00.000Z",
+    );
+    expect(addBillingCycle(start, "yearly").toISOString()).toBe(
+      "2025-01-31T00:00:00.000Z",
+    );
+  });
+
+  it("ends on the last day of a shorter month", () => {
+    expect(addBillingCycle(start, "monthly").toISOString()).toBe(
+      "2024-02-29T00:00:00.000Z",
+    );
+    expect(addBillingCycle(start, "monthly", 3).toISOString()).toBe(
+      "2024-04-30T00:00:00.000Z",
+    );
+    expect(
+      addBillingCycle(new Date("2024-02-29T00:00:00Z"), "yearly").toISOString(),
+    ).toBe("2025-02-28T00:00:00.000Z");
+  });
+
+  it("does not modify the input date", () => {
+    addBillingCycle(start, "monthly");
+    expect(start.toISOString()).toBe("2024-01-31T00:00:00.000Z");
+  });
+});
+
+describe("toMonthlyAmount", () => {
+  it("normalizes each period to a month", () => {
+    expect(toMonthlyAmount(1000, "monthly")).toBe(1000);
+    expect(toMonthlyAmount(3000, "monthly", 3)).toBe(1000);
+    expect(toMonthlyAmount(12000, "yearly")).toBe(1000);
+    expect(toMonthlyAmount(1200, "weekly")).toBe(5200);
+  });
+});
+
+describe("estimateProration", () => {
+  const currentStart = new Date("2024-01-01T00:00:00Z");
+  const currentEnd = new Date("2024-01-31T00:00:00Z");
+  const now = new Date("2024-01-21T00:00:00Z");
+
+  it("charges the price difference for the rest of the cycle", () => {
+    expect(
+      estimateProration({
+        currentAmount: 30000,
+        targetAmount: 60000,
+        currentStart,
+        currentEnd,
+        sameCycle: true,
+        now,
+      }),
+    ).toEqual({ remainingRatio: 1 / 3, amount: 10000 });
+  });
+
+  it("credits the difference on a downgrade", () => {
+    expect(
+      estimateProration({
+        currentAmount: 60000,
+        targetAmount: 30000,
+        currentStart,
+        currentEnd,
+        sameCycle: true,
+        now,
+      }).amount,
+    ).toBe(-10000);
+  });
+
+  it("charges the full target less unused time when the cycle changes", () => {
+    expect(
+      estimateProration({
+        currentAmount: 30000,
+        targetAmount: 300000,
+        currentStart,
+        currentEnd,
+        sameCycle: false,
+        now,
+      }).amount,
+    ).toBe(290000);
+  });
+
+  it("clamps outside the cycle", () => {
+    expect(
+      estimateProration({
+        currentAmount: 30000,
+        targetAmount: 60000,
+        currentStart,
+        currentEnd,
+        sameCycle: true,
+        now: new Date("2024-03-01T00:00:00Z"),
+      }),
+    ).toEqual({ remainingRatio: 0, amount: 0 });
+  });
+});
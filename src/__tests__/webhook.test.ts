@@ -0,0 +1,823 @@
+import * as crypto from "node:crypto";
+import { betterAuth } from "better-auth";
+import { memoryAdapter } from "better-auth/adapters/memory";
+import { APIError } from "better-call";
+import { describe, expect, it, vi } from "vitest";
+import { RAZORPAY_ERROR_CODES } from "../error-codes";
+import { razorpay } from "../index";
+import { createSignedWebhookRequest, createWebhookEvent } from "../testing";
+import type {
+  RazorpayOptions,
+  RazorpayWebhookEvent,
+  WebhookDeadLetter,
+  WebhookEventRecord,
+} from "../types";
+import {
+  dispatchWebhookEvent,
+  isWellFormedSignature,
+  isWithinTolerance,
+  processWebhookEvent,
+  readWebhookRawBody,
+  replayDeadLetter,
+  resolveWebhookSecrets,
+  verifyWebhookSignature,
+} from "../webhook";
+
+// ─── Mock Factories ──────────────────────────────────────────────────────────
+
+function makeMockAdapter() {
+  return {
+    findOne: vi.fn(),
+    findMany: vi.fn(),
+    create: vi.fn(async ({ data }) => ({ id: "evt_db_001", ...data })),
+    update: vi.fn(async ({ update }) => ({ id: "evt_db_001", ...update })),
+  };
+}
+
+function makeMockCtx(adapter = makeMockAdapter()) {
+  return {
+    context: {
+      adapter,
+      logger: {
+        warn: vi.fn(),
+        error: vi.fn(),
+        info: vi.fn(),
+      },
+    },
+  } as any;
+}
+
+function makeEvent(eventName = "order.paid"): RazorpayWebhookEvent {
+  return {
+    entity: "event",
+    account_id: "acc_001",
+    event: eventName,
+    contains: [],
+    payload: {},
+    created_at: 1700000000,
+  };
+}
+
+function makeRecord(
+  overrides: Partial<WebhookEventRecord> = {},
+): WebhookEventRecord {
+  return {
+    id: "evt_db_001",
+    eventId: "evt_001",
+    event: "order.paid",
+    status: "processed",
+    receivedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function makeDeadLetter(
+  overrides: Partial<WebhookDeadLetter> = {},
+): WebhookDeadLetter {
+  return {
+    id: "dl_001",
+    eventId: "evt_001",
+    event: "order.paid",
+    payload: JSON.stringify(makeEvent()),
+    error: "boom",
+    attempts: 1,
+    status: "pending",
+    lastAttemptAt: new Date(),
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+function makeOptions(
+  overrides: Partial<RazorpayOptions> = {},
+): RazorpayOptions {
+  return {
+    razorpayClient: {} as any,
+    razorpayWebhookSecret: "secret",
+    ...overrides,
+  } as RazorpayOptions;
+}
+
+// ─── processWebhookEvent ─────────────────────────────────────────────────────
+
+describe("processWebhookEvent", () => {
+  it("acknowledges processed duplicates without dispatching", async () => {
+    const adapter = makeMockAdapter();
+    const ctx = makeMockCtx(adapter);
+    adapter.findOne.mockResolvedValue(makeRecord());
+    const onEvent = vi.fn();
+
+    const result = await processWebhookEvent(
+      ctx,
+      makeOptions({ onEvent }),
+      makeEvent(),
+      "evt_001",
+    );
+
+    expect(result).toEqual({ received: true, duplicate: true });
+    expect(onEvent).not.toHaveBeenCalled();
+    expect(adapter.create).not.toHaveBeenCalled();
+  });
+
+  it("acknowledges ignored duplicates without dispatching", async () => {
+    const adapter = makeMockAdapter();
+    const ctx = makeMockCtx(adapter);
+    adapter.findOne.mockResolvedValue(makeRecord({ status: "ignored" }));
+    const onEvent = vi.fn();
+
+    const result = await processWebhookEvent(
+      ctx,
+      makeOptions({ onEvent }),
+      makeEvent(),
+      "evt_001",
+    );
+
+    expect(result.duplicate).toBe(true);
+    expect(onEvent).not.toHaveBeenCalled();
+  });
+
+  it("records unhandled event types as ignored", async () => {
+    const adapter = makeMockAdapter();
+    const ctx = makeMockCtx(adapter);
+    adapter.findOne.mockResolvedValue(null);
+
+    const result = await processWebhookEvent(
+      ctx,
+      makeOptions(),
+      makeEvent("order.paid"),
+      "evt_001",
+    );
+
+    expect(result).toEqual({ received: true });
+    expect(adapter.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: "razorpayWebhookEvent",
+        update: expect.objectContaining({ status: "ignored" }),
+        where: [{ field: "id", value: "evt_db_001" }],
+      }),
+    );
+  });
+
+  it("claims the event as processing before dispatching", async () => {
+    const adapter = makeMockAdapter();
+    const ctx = makeMockCtx(adapter);
+    adapter.findOne.mockResolvedValue(null);
+    const onEvent = vi.fn(async () => {
+      expect(adapter.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          model: "razorpayWebhookEvent",
+          data: expect.objectContaining({
+            eventId: "evt_001",
+            event: "order.paid",
+            accountId: "acc_001",
+            status: "processing",
+          }),
+        }),
+      );
+    });
+
+    await processWebhookEvent(
+      ctx,
+      makeOptions({ onEvent }),
+      makeEvent(),
+      "evt_001",
+    );
+
+    expect(onEvent).toHaveBeenCalled();
+  });
+
+  it("acknowledges a concurrent delivery that lost the claim", async () => {
+    const adapter = makeMockAdapter();
+    const ctx = makeMockCtx(adapter);
+    adapter.findOne
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(
+        makeRecord({ status: "processing", attemptedAt: new Date() }),
+      );
+    adapter.create.mockRejectedValue(new Error("unique constraint violated"));
+    const onEvent = vi.fn();
+
+    const result = await processWebhookEvent(
+      ctx,
+      makeOptions({ onEvent }),
+      makeEvent(),
+      "evt_001",
+    );
+
+    expect(result).toEqual({ received: true, duplicate: true });
+    expect(onEvent).not.toHaveBeenCalled();
+    expect(adapter.update).not.toHaveBeenCalled();
+  });
+
+  it("takes over a stale processing claim", async () => {
+    const adapter = makeMockAdapter();
+    const ctx = makeMockCtx(adapter);
+    const attemptedAt = new Date(Date.now() - 60 * 60 * 1000);
+    adapter.findOne.mockResolvedValue(
+      makeRecord({ status: "processing", attemptedAt }),
+    );
+    const onEvent = vi.fn();
+
+    const result = await processWebhookEvent(
+      ctx,
+      makeOptions({ onEvent }),
+      makeEvent(),
+      "evt_001",
+    );
+
+    expect(result).toEqual({ received: true });
+    expect(onEvent).toHaveBeenCalled();
+    expect(adapter.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: expect.objectContaining({ status: "processing" }),
+        where: [
+          { field: "id", value: "evt_db_001" },
+          { field: "status", value: "processing" },
+          { field: "attemptedAt", value: attemptedAt },
+        ],
+      }),
+    );
+  });
+
+  it("records handled event types as processed", async () => {
+    const adapter = makeMockAdapter();
+    const ctx = makeMockCtx(adapter);
+    adapter.findOne.mockResolvedValue(null);
+
+    await processWebhookEvent(
+      ctx,
+      makeOptions({ subscription: { enabled: false } }),
+      makeEvent("subscription.charged"),
+      "evt_001",
+    );
+
+    expect(adapter.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: expect.objectContaining({ status: "processed" }),
+      }),
+    );
+  });
+
+  it("records failures and acknowledges them by default", async () => {
+    const adapter = makeMockAdapter();
+    const ctx = makeMockCtx(adapter);
+    adapter.findOne.mockResolvedValue(null);
+    const onEvent = vi.fn().mockRejectedValue(new Error("boom"));
+
+    const result = await processWebhookEvent(
+      ctx,
+      makeOptions({ onEvent }),
+      makeEvent(),
+      "evt_001",
+    );
+
+    expect(result).toEqual({ received: true });
+    expect(adapter.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: "razorpayWebhookEvent",
+        update: expect.objectContaining({
+          status: "failed",
+          error: "onEvent callback failed: boom",
+        }),
+      }),
+    );
+    expect(ctx.context.logger.error).toHaveBeenCalled();
+  });
+
+  it("responds with a callback error in retry mode", async () => {
+    const adapter = makeMockAdapter();
+    const ctx = makeMockCtx(adapter);
+    adapter.findOne.mockResolvedValue(null);
+    const onEvent = vi.fn().mockRejectedValue(new Error("boom"));
+
+    const error = await processWebhookEvent(
+      ctx,
+      makeOptions({ onEvent, webhook: { onHandlerError: "retry" } }),
+      makeEvent(),
+      "evt_001",
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(APIError);
+    expect(error.status).toBe("INTERNAL_SERVER_ERROR");
+    expect(error.body).toMatchObject({
+      body: { code: RAZORPAY_ERROR_CODES.WEBHOOK_CALLBACK_FAILED },
+    });
+  });
+
+  it("responds with a handler error in retry mode when the database fails", async () => {
+    const adapter = makeMockAdapter();
+    const ctx = makeMockCtx(adapter);
+    // Ledger lookup succeeds, the handler's lookup fails
+    adapter.findOne
+      .mockResolvedValueOnce(null)
+      .mockRejectedValue(new Error("DB connection failed"));
+
+    const error = await processWebhookEvent(
+      ctx,
+      makeOptions({
+        webhook: { onHandlerError: "retry" },
+        subscription: { enabled: true, plans: [] },
+      }),
+      {
+        ...makeEvent("subscription.charged"),
+        payload: { subscription: { entity: { id: "sub_001" } as any } },
+      },
+      "evt_001",
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(APIError);
+    expect(error.body).toMatchObject({
+      body: { code: RAZORPAY_ERROR_CODES.WEBHOOK_HANDLER_FAILED },
+    });
+    expect(adapter.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: "razorpayWebhookEvent",
+        update: expect.objectContaining({
+          status: "failed",
+          error: "DB connection failed",
+        }),
+      }),
+    );
+  });
+
+  it("reprocesses previously failed events and updates the ledger entry", async () => {
+    const adapter = makeMockAdapter();
+    const ctx = makeMockCtx(adapter);
+    adapter.findOne.mockResolvedValue(makeRecord({ status: "failed" }));
+    const onEvent = vi.fn();
+
+    const result = await processWebhookEvent(
+      ctx,
+      makeOptions({ onEvent }),
+      makeEvent(),
+      "evt_001",
+    );
+
+    expect(result).toEqual({ received: true });
+    expect(onEvent).toHaveBeenCalled();
+    expect(adapter.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: "razorpayWebhookEvent",
+        update: expect.objectContaining({ status: "ignored", error: null }),
+        where: [{ field: "id", value: "evt_db_001" }],
+      }),
+    );
+  });
+
+  it("skips the ledger when the event has no id", async () => {
+    const adapter = makeMockAdapter();
+    const ctx = makeMockCtx(adapter);
+    const onEvent = vi.fn();
+
+    await processWebhookEvent(
+      ctx,
+      makeOptions({ onEvent }),
+      makeEvent(),
+      undefined,
+    );
+
+    expect(onEvent).toHaveBeenCalled();
+    expect(adapter.findOne).not.toHaveBeenCalled();
+    expect(adapter.create).not.toHaveBeenCalled();
+  });
+});
+
+// ─── webhookHandlers ─────────────────────────────────────────────────────────
+
+describe("webhookHandlers", () => {
+  function makeChargedEvent(): RazorpayWebhookEvent {
+    return {
+      ...makeEvent("subscription.charged"),
+      payload: { subscription: { entity: { id: "sub_001" } as any } },
+    };
+  }
+
+  it("routes events without a built-in handler to a custom handler", async () => {
+    const ctx = makeMockCtx();
+    const receipts: (string | null)[] = [];
+    const options = makeOptions({
+      webhookHandlers: {
+        "order.paid": async (event, handlerCtx) => {
+          expect(handlerCtx).toBe(ctx);
+          receipts.push(event.payload.order.entity.receipt);
+        },
+      },
+    });
+
+    const handled = await dispatchWebhookEvent(ctx, options, {
+      ...makeEvent("order.paid"),
+      payload: {
+        order: { entity: { id: "order_001", receipt: "rcpt_001" } },
+      } as any,
+    });
+
+    expect(handled).toBe(true);
+    expect(receipts).toEqual(["rcpt_001"]);
+  });
+
+  it("replaces the built-in handler", async () => {
+    const adapter = makeMockAdapter();
+    const ctx = makeMockCtx(adapter);
+    const handler = vi.fn();
+
+    await dispatchWebhookEvent(
+      ctx,
+      makeOptions({
+        subscription: { enabled: true, plans: [] },
+        webhookHandlers: { "subscription.charged": handler },
+      }),
+      makeChargedEvent(),
+    );
+
+    expect(handler).toHaveBeenCalled();
+    expect(adapter.findOne).not.toHaveBeenCalled();
+  });
+
+  it("runs the built-in handler through runDefault", async () => {
+    const adapter = makeMockAdapter();
+    const ctx = makeMockCtx(adapter);
+    adapter.findOne.mockResolvedValue(null);
+
+    await dispatchWebhookEvent(
+      ctx,
+      makeOptions({
+        subscription: { enabled: true, plans: [] },
+        webhookHandlers: {
+          "subscription.charged": async (_event, _ctx, { runDefault }) => {
+            expect(await runDefault()).toBe(true);
+          },
+        },
+      }),
+      makeChargedEvent(),
+    );
+
+    expect(adapter.findOne).toHaveBeenCalledWith(
+      expect.objectContaining({ model: "subscription" }),
+    );
+  });
+
+  it("reports built-in failures inside runDefault as handler errors", async () => {
+    const adapter = makeMockAdapter();
+    const ctx = makeMockCtx(adapter);
+    adapter.findOne
+      .mockResolvedValueOnce(null) // ledger
+      .mockRejectedValue(new Error("DB connection failed"));
+
+    const error = await processWebhookEvent(
+      ctx,
+      makeOptions({
+        webhook: { onHandlerError: "retry" },
+        subscription: { enabled: true, plans: [] },
+        webhookHandlers: {
+          "subscription.charged": async (_event, _ctx, { runDefault }) => {
+            await runDefault();
+          },
+        },
+      }),
+      makeChargedEvent(),
+      "evt_001",
+    ).catch((e) => e);
+
+    expect(error.body).toMatchObject({
+      body: { code: RAZORPAY_ERROR_CODES.WEBHOOK_HANDLER_FAILED },
+    });
+  });
+});
+
+// ─── Dead Letters ────────────────────────────────────────────────────────────
+
+describe("webhook dead letters", () => {
+  it("stores the raw delivery of a failed event", async () => {
+    const adapter = makeMockAdapter();
+    const ctx = makeMockCtx(adapter);
+    adapter.findOne.mockResolvedValue(null);
+    const onEvent = vi.fn().mockRejectedValue(new Error("boom"));
+
+    await processWebhookEvent(
+      ctx,
+      makeOptions({ onEvent }),
+      makeEvent(),
+      "evt_001",
+      {
+        rawBody: '{"event":"order.paid"}',
+        headers: { "x-razorpay-event-id": "evt_001" },
+      },
+    );
+
+    expect(adapter.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: "razorpayWebhookDeadLetter",
+        data: expect.objectContaining({
+          eventId: "evt_001",
+          event: "order.paid",
+          payload: '{"event":"order.paid"}',
+          headers: '{"x-razorpay-event-id":"evt_001"}',
+          error: "onEvent callback failed: boom",
+          attempts: 1,
+          status: "pending",
+        }),
+      }),
+    );
+  });
+
+  it("counts repeated failures on the pending dead letter", async () => {
+    const adapter = makeMockAdapter();
+    const ctx = makeMockCtx(adapter);
+    adapter.findOne.mockImplementation(async ({ model }) =>
+      model === "razorpayWebhookDeadLetter"
+        ? makeDeadLetter({ attempts: 2 })
+        : makeRecord({ status: "failed" }),
+    );
+    const onEvent = vi.fn().mockRejectedValue(new Error("boom"));
+
+    await processWebhookEvent(
+      ctx,
+      makeOptions({ onEvent }),
+      makeEvent(),
+      "evt_001",
+    );
+
+    expect(adapter.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: "razorpayWebhookDeadLetter",
+        update: expect.objectContaining({ attempts: 3 }),
+        where: [{ field: "id", value: "dl_001" }],
+      }),
+    );
+  });
+
+  it("marks a dead letter replayed when the replay succeeds", async () => {
+    const adapter = makeMockAdapter();
+    const ctx = makeMockCtx(adapter);
+    adapter.findOne.mockImplementation(async ({ model }) =>
+      model === "razorpayWebhookEvent"
+        ? makeRecord({ status: "failed" })
+        : null,
+    );
+    adapter.update.mockImplementation(async ({ update }) => update);
+    const onEvent = vi.fn();
+
+    const result = await replayDeadLetter(
+      ctx,
+      makeOptions({ onEvent }),
+      makeDeadLetter(),
+    );
+
+    expect(onEvent).toHaveBeenCalledWith(makeEvent());
+    expect(result.status).toBe("replayed");
+    expect(adapter.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: "razorpayWebhookDeadLetter",
+        update: expect.objectContaining({
+          status: "replayed",
+          replayedAt: expect.any(Date),
+        }),
+        where: [{ field: "id", value: "dl_001" }],
+      }),
+    );
+  });
+
+  it("counts the attempt when the replay fails", async () => {
+    const adapter = makeMockAdapter();
+    const ctx = makeMockCtx(adapter);
+    adapter.findOne.mockResolvedValue(makeRecord({ status: "failed" }));
+    adapter.update.mockImplementation(async ({ model, update }) =>
+      model === "razorpayWebhookEvent" ? update : null,
+    );
+    const onEvent = vi.fn().mockRejectedValue(new Error("still broken"));
+
+    const result = await replayDeadLetter(
+      ctx,
+      makeOptions({ onEvent }),
+      makeDeadLetter(),
+    );
+
+    expect(result).toMatchObject({
+      status: "pending",
+      attempts: 2,
+      error: "onEvent callback failed: still broken",
+    });
+  });
+});
+
+// ─── Signature Verification ──────────────────────────────────────────────────
+
+function sign(body: string, secret: string) {
+  return crypto.createHmac("sha256", secret).update(body).digest("hex");
+}
+
+describe("resolveWebhookSecrets", () => {
+  it("wraps a single secret", async () => {
+    expect(await resolveWebhookSecrets(makeMockCtx(), "secret")).toEqual([
+      "secret",
+    ]);
+  });
+
+  it("resolves a function and drops empty entries", async () => {
+    const ctx = makeMockCtx();
+    const resolver = vi.fn().mockResolvedValue(["new", "", "old"]);
+
+    expect(await resolveWebhookSecrets(ctx, resolver)).toEqual(["new", "old"]);
+    expect(resolver).toHaveBeenCalledWith(ctx);
+  });
+});
+
+describe("verifyWebhookSignature", () => {
+  const body = JSON.stringify(makeEvent());
+
+  it("returns the index of the matching secret", () => {
+    expect(
+      verifyWebhookSignature(body, sign(body, "old"), ["new", "old"]),
+    ).toBe(1);
+    expect(
+      verifyWebhookSignature(body, sign(body, "new"), ["new", "old"]),
+    ).toBe(0);
+  });
+
+  it("returns -1 when no secret matches", () => {
+    expect(verifyWebhookSignature(body, sign(body, "other"), ["new"])).toBe(-1);
+  });
+
+  it("rejects signatures of the wrong length without throwing", () => {
+    expect(verifyWebhookSignature(body, "abc", ["new"])).toBe(-1);
+  });
+});
+
+describe("isWellFormedSignature", () => {
+  it("accepts a hex SHA-256 digest", () => {
+    expect(isWellFormedSignature(sign("{}", "secret"))).toBe(true);
+  });
+
+  it("rejects anything else", () => {
+    expect(isWellFormedSignature("abc")).toBe(false);
+    expect(isWellFormedSignature("z".repeat(64))).toBe(false);
+  });
+});
+
+describe("readWebhookRawBody", () => {
+  it("reads the request body by default", async () => {
+    const ctx = makeMockCtx();
+    ctx.request = new Request("http://localhost", {
+      method: "POST",
+      body: '{"event":"order.paid"}',
+    });
+    await expect(readWebhookRawBody(ctx, makeOptions())).resolves.toBe(
+      '{"event":"order.paid"}',
+    );
+  });
+
+  it("prefers getRawBody and decodes bytes", async () => {
+    const ctx = makeMockCtx();
+    const options = makeOptions({
+      webhook: {
+        getRawBody: () => new TextEncoder().encode('{"event":"order.paid"}'),
+      },
+    });
+    await expect(readWebhookRawBody(ctx, options)).resolves.toBe(
+      '{"event":"order.paid"}',
+    );
+  });
+
+  it("returns null instead of re-serializing a consumed body", async () => {
+    const ctx = makeMockCtx();
+    ctx.request = new Request("http://localhost", {
+      method: "POST",
+      body: "{}",
+    });
+    ctx.body = { event: "order.paid" };
+    await ctx.request.text();
+    await expect(readWebhookRawBody(ctx, makeOptions())).resolves.toBeNull();
+  });
+});
+
+describe("isWithinTolerance", () => {
+  const now = 1_700_000_000_000;
+
+  it("accepts everything without a window", () => {
+    expect(isWithinTolerance(0, undefined, now)).toBe(true);
+  });
+
+  it("rejects events outside the window in either direction", () => {
+    expect(isWithinTolerance(now / 1000 - 299, 300, now)).toBe(true);
+    expect(isWithinTolerance(now / 1000 - 301, 300, now)).toBe(false);
+    expect(isWithinTolerance(now / 1000 + 301, 300, now)).toBe(false);
+  });
+});
+
+describe("webhook endpoint verification", () => {
+  function makeAuth(webhook?: RazorpayOptions["webhook"]) {
+    return betterAuth({
+      baseURL: "http://localhost:3000",
+      secret: "better-auth-secret-for-tests-only",
+      database: memoryAdapter({ razorpayWebhookEvent: [] }),
+      plugins: [
+        razorpay({
+          razorpayClient: {} as any,
+          razorpayWebhookSecret: "secret",
+          subscription: { enabled: true, plans: [] },
+          webhook,
+        }),
+      ],
+    });
+  }
+
+  async function post(auth: ReturnType<typeof makeAuth>, request: Request) {
+    const response = await auth.handler(request);
+    return { status: response.status, body: await response.json() };
+  }
+
+  it("rejects a malformed signature with its own code", async () => {
+    const request = createSignedWebhookRequest(makeEvent(), {
+      secret: "secret",
+    });
+    request.headers.set("x-razorpay-signature", "not-a-signature");
+    await expect(post(makeAuth(), request)).resolves.toMatchObject({
+      status: 400,
+      body: {
+        body: { code: RAZORPAY_ERROR_CODES.WEBHOOK_SIGNATURE_MALFORMED },
+      },
+    });
+  });
+
+  it("rejects events outside the tolerance window", async () => {
+    const stale = createWebhookEvent("order.paid", makeEvent().payload as any, {
+      created_at: Math.floor(Date.now() / 1000) - 600,
+    });
+    const auth = makeAuth({ toleranceSeconds: 300 });
+    await expect(
+      post(auth, createSignedWebhookRequest(stale, { secret: "secret" })),
+    ).resolves.toMatchObject({
+      status: 400,
+      body: { body: { code: RAZORPAY_ERROR_CODES.WEBHOOK_EVENT_EXPIRED } },
+    });
+    await expect(
+      post(makeAuth(), createSignedWebhookRequest(stale, { secret: "secret" })),
+    ).resolves.toMatchObject({ status: 200 });
+  });
+
+  it("verifies against the body returned by getRawBody", async () => {
+    const event = makeEvent();
+    const rawBody = JSON.stringify(event, null, 2);
+    const request = new Request(
+      "http://localhost:3000/api/auth/razorpay/webhook",
+      {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          "x-razorpay-signature": sign(rawBody, "secret"),
+        },
+        // What a framework that re-serializes parsed JSON would forward
+        body: JSON.stringify(event),
+      },
+    );
+
+    await expect(post(makeAuth(), request.clone())).resolves.toMatchObject({
+      status: 400,
+      body: { body: { code: RAZORPAY_ERROR_CODES.FAILED_TO_VERIFY_WEBHOOK } },
+    });
+    await expect(
+      post(makeAuth({ getRawBody: () => rawBody }), request),
+    ).resolves.toMatchObject({ status: 200 });
+  });
+
+  it("rejects events from accounts that are not allowed", async () => {
+    const auth = makeAuth({ allowedAccountIds: ["acc_002"] });
+    await expect(
+      post(auth, createSignedWebhookRequest(makeEvent(), { secret: "secret" })),
+    ).resolves.toMatchObject({
+      status: 403,
+      body: {
+        body: { code: RAZORPAY_ERROR_CODES.WEBHOOK_ACCOUNT_NOT_ALLOWED },
+      },
+    });
+  });
+
+  it("routes events from other accounts to onForeignAccountEvent", async () => {
+    const onForeignAccountEvent = vi.fn();
+    const auth = makeAuth({
+      allowedAccountIds: ["acc_002"],
+      onForeignAccountEvent,
+    });
+    const event = makeEvent();
+
+    await expect(
+      post(auth, createSignedWebhookRequest(event, { secret: "secret" })),
+    ).resolves.toMatchObject({ status: 200, body: { received: true } });
+    expect(onForeignAccountEvent).toHaveBeenCalledWith(
+      { event },
+      expect.anything(),
+    );
+
+    onForeignAccountEvent.mockRejectedValueOnce(new Error("queue down"));
+    await expect(
+      post(auth, createSignedWebhookRequest(event, { secret: "secret" })),
+    ).resolves.toMatchObject({ status: 500 });
+  });
+
+  it("processes events from allowed accounts", async () => {
+    const auth = makeAuth({ allowedAccountIds: ["acc_001", "acc_002"] });
+    await expect(
+      post(auth, createSignedWebhookRequest(makeEvent(), { secret: "secret" })),
+    ).resolves.toMatchObject({ status: 200 });
+  });
+});
@@ -28,11 +28,20 @@ export const razorpayClient = <
       >
     >,
     pathMethods: {
+      "/subscription/preview-change": "POST",
       "/subscription/pause": "POST",
       "/subscription/resume": "POST",
       "/subscription/update": "POST",
       "/subscription/restore": "POST",
+      "/subscription/resume-due": "POST",
+      "/subscription/process-trials": "POST",
+      "/subscription/process-dunning": "POST",
+      "/subscription/usage": "POST",
+      "/subscription/bill-usage": "POST",
+      "/subscription/payment-link": "GET",
+      "/subscription/entitlements": "GET",
       "/subscription/get": "GET",
+      "/subscription/invoices": "GET",
       "/razorpay/subscription/get": "GET",
       "/razorpay/subscription-link": "POST",
       "/razorpay/subscription/pending-update": "GET",
@@ -47,7 +56,11 @@ export const razorpayClient = <
       "/razorpay/customer/edit": "POST",
       "/razorpay/customer/list": "GET",
       "/razorpay/customer/get": "GET",
+      "/razorpay/refund/create": "POST",
+      "/razorpay/webhook/dead-letters": "GET",
+      "/razorpay/webhook/replay": "POST",
     },
   } satisfies BetterAuthClientPlugin;
 };
 export * from "./error-codes";
+export { hasFeature } from "./entitlements";
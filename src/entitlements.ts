@@ -0,0 +1,15 @@
+import type { Entitlements } from "./types";
+
+/**
+ * Checks if entitlements grant a feature: its limit is set and is not
+ * `false` or `0`
+ */
+export function hasFeature(
+  entitlements: Pick<Entitlements, "limits">,
+  feature: string,
+): boolean {
+  const value = entitlements.limits[feature];
+  return (
+    value !== undefined && value !== null && value !== false && value !== 0
+  );
+}
@@ -45,7 +45,31 @@ export const RAZORPAY_ERROR_CODES = defineErrorCodes({
   SUBSCRIPTION_RESTORE_FAILED: "Failed to restore subscription",
   SUBSCRIPTION_NOT_PENDING_CANCEL:
     "Subscription is not pending cancellation, cannot restore",
+  SUBSCRIPTION_ALREADY_RESTORED:
+    "Subscription already has a continuation subscription",
+  INVALID_RESUME_DATE: "Resume date must be in the future",
+  PAUSE_DURATION_EXCEEDED: "Pause is longer than the plan allows",
+  PAUSE_LIMIT_REACHED: "Maximum number of pauses for this year reached",
+  PAYMENT_LINK_NOT_AVAILABLE:
+    "No payment link is available for this subscription",
+  SUBSCRIPTION_PAST_DUE:
+    "Subscription was paused for a failed payment and resumes once it is paid",
+  USAGE_METRIC_NOT_FOUND:
+    "The subscription's plan has no price for this metric",
   TRIAL_ALREADY_USED:
     "You have already used a free trial and are not eligible for another",
   SUBSCRIPTION_RENEW_FAILED: "Failed to process subscription renewal",
+  AUTHORIZE_ADMIN_REQUIRED:
+    "Admin endpoints require authorizeAdmin callback to be configured",
+  REFUND_CREATE_FAILED: "Failed to create refund",
+  WEBHOOK_HANDLER_FAILED: "Failed to process Razorpay webhook event",
+  WEBHOOK_CALLBACK_FAILED: "A webhook callback failed to process the event",
+  WEBHOOK_DEAD_LETTER_NOT_FOUND: "Webhook dead letter not found",
+  WEBHOOK_SIGNATURE_MALFORMED: "Razorpay webhook signature is malformed",
+  WEBHOOK_BODY_NOT_FOUND: "Razorpay webhook raw body not available",
+  WEBHOOK_INVALID_PAYLOAD: "Razorpay webhook payload is not a valid event",
+  WEBHOOK_EVENT_EXPIRED:
+    "Razorpay webhook event is outside the tolerance window",
+  WEBHOOK_ACCOUNT_NOT_ALLOWED:
+    "Razorpay webhook event is from an account that is not allowed",
 });
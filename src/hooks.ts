@@ -4,12 +4,26 @@ import type { Organization } from "better-auth/plugins/organization";
 import { subscriptionNotes } from "./metadata";
 import type {
     CustomerType,
+    Dispute,
+    Invoice,
+    Payment,
+    RazorpayDisputeEntity,
+    RazorpayDisputeStatus,
+    RazorpayInvoiceEntity,
     RazorpayOptions,
+    RazorpayPaymentEntity,
+    RazorpayPaymentStatus,
+    RazorpayRefundEntity,
+    RazorpayRefundStatus,
     RazorpayWebhookEvent,
+    Refund,
     Subscription,
 } from "./types";
 import {
     getPlanByPlanId,
+    invokeCallback,
+    isActive,
+    isTerminal,
     timestampToDate,
     toSubscriptionStatus,
 } from "./utils";
@@ -59,6 +73,20 @@ async function findSubscriptionByRazorpayId(
   });
 }
 
+/**
+ * Whether an event is older than the last event applied to the subscription.
+ * Razorpay does not guarantee delivery order, so stale events must not
+ * overwrite newer state.
+ * @internal
+ */
+function isStaleEvent(
+  subscription: Subscription,
+  event: RazorpayWebhookEvent,
+): boolean {
+  if (!subscription.lastEventAt) return false;
+  return event.created_at * 1000 < new Date(subscription.lastEventAt).getTime();
+}
+
 /**
  * subscription.authenticated
  *
@@ -77,11 +105,19 @@ export async function onSubscriptionAuthenticated(
 
     let subscription = await findSubscriptionByRazorpayId(ctx, razorpaySub.id);
 
+    if (subscription && isStaleEvent(subscription, event)) {
+      ctx.context.logger.info(
+        `Razorpay webhook: subscription.authenticated — ignoring stale event for subscription ${razorpaySub.id}`,
+      );
+      return;
+    }
+
     if (subscription) {
       subscription = await ctx.context.adapter.update<Subscription>({
         model: "subscription",
         update: {
           status: "authenticated",
+          lastEventAt: timestampToDate(event.created_at),
           updatedAt: new Date(),
         },
         where: [{ field: "id", value: subscription.id }],
@@ -123,19 +159,25 @@ export async function onSubscriptionAuthenticated(
           paidCount: razorpaySub.paid_count,
           remainingCount: razorpaySub.remaining_count,
           shortUrl: razorpaySub.short_url ?? undefined,
+          lastEventAt: timestampToDate(event.created_at),
         },
       })) as Subscription;
     }
 
-    await options.subscription.onSubscriptionAuthenticated?.({
-      event,
-      razorpaySubscription: razorpaySub,
-      subscription: subscription as Subscription,
-    });
+    await invokeCallback(
+      "onSubscriptionAuthenticated",
+      options.subscription.onSubscriptionAuthenticated,
+      {
+        event,
+        razorpaySubscription: razorpaySub,
+        subscription: subscription as Subscription,
+      },
+    );
   } catch (error: any) {
     ctx.context.logger.error(
       `Razorpay webhook (subscription.authenticated) failed: ${error.message}`,
     );
+    throw error;
   }
 }
 
@@ -158,6 +200,13 @@ export async function onSubscriptionActivated(
     const plan = await getPlanByPlanId(options, razorpaySub.plan_id);
     let subscription = await findSubscriptionByRazorpayId(ctx, razorpaySub.id);
 
+    if (subscription && isStaleEvent(subscription, event)) {
+      ctx.context.logger.info(
+        `Razorpay webhook: subscription.activated — ignoring stale event for subscription ${razorpaySub.id}`,
+      );
+      return;
+    }
+
     const updateData = {
       status: "active" as const,
       razorpayPlanId: razorpaySub.plan_id,
@@ -169,6 +218,9 @@ export async function onSubscriptionActivated(
       paidCount: razorpaySub.paid_count,
       remainingCount: razorpaySub.remaining_count,
       shortUrl: razorpaySub.short_url,
+      pastDueSince: null,
+      dunningEndedAt: null,
+      lastEventAt: timestampToDate(event.created_at),
       updatedAt: new Date(),
     };
 
@@ -215,12 +267,16 @@ export async function onSubscriptionActivated(
     }
 
     if (plan) {
-      await options.subscription.onSubscriptionActivated?.({
-        event,
-        razorpaySubscription: razorpaySub,
-        subscription: subscription as Subscription,
-        plan,
-      });
+      await invokeCallback(
+        "onSubscriptionActivated",
+        options.subscription.onSubscriptionActivated,
+        {
+          event,
+          razorpaySubscription: razorpaySub,
+          subscription: subscription as Subscription,
+          plan,
+        },
+      );
 
       // If subscription had a trial, set trialEnd and call onTrialEnd
       if (
@@ -233,14 +289,19 @@ export async function onSubscriptionActivated(
           update: { trialEnd: new Date() },
           where: [{ field: "id", value: (subscription as Subscription).id }],
         });
-        await plan.freeTrial.onTrialEnd?.
-          ({ subscription: subscription as Subscription }, ctx);
+        await invokeCallback(
+          "onTrialEnd",
+          plan.freeTrial.onTrialEnd,
+          { subscription: subscription as Subscription },
+          ctx,
+        );
       }
     }
   } catch (error: any) {
     ctx.context.logger.error(
       `Razorpay webhook (subscription.activated) failed: ${error.message}`,
     );
+    throw error;
   }
 }
 
@@ -271,6 +332,13 @@ export async function onSubscriptionCharged(
       return;
     }
 
+    if (isStaleEvent(subscription, event)) {
+      ctx.context.logger.info(
+        `Razorpay webhook: subscription.charged — ignoring stale event for subscription ${razorpaySub.id}`,
+      );
+      return;
+    }
+
     const now = new Date();
     const isRenewal = razorpaySub.paid_count > 1;
 
@@ -283,29 +351,41 @@ export async function onSubscriptionCharged(
         paidCount: razorpaySub.paid_count,
         remainingCount: razorpaySub.remaining_count,
         ...(isRenewal ? { renewedAt: now } : {}),
+        pastDueSince: null,
+        dunningEndedAt: null,
+        lastEventAt: timestampToDate(event.created_at),
         updatedAt: now,
       },
       where: [{ field: "id", value: subscription.id }],
     });
 
-    await options.subscription.onSubscriptionCharged?.({
-      event,
-      razorpaySubscription: razorpaySub,
-      subscription: (updatedSubscription || subscription) as Subscription,
-    });
-
-    // Call onSubscriptionRenewed for recurring payments (not the first charge)
-    if (isRenewal) {
-      await options.subscription.onSubscriptionRenewed?.({
+    await invokeCallback(
+      "onSubscriptionCharged",
+      options.subscription.onSubscriptionCharged,
+      {
         event,
         razorpaySubscription: razorpaySub,
         subscription: (updatedSubscription || subscription) as Subscription,
-      });
+      },
+    );
+
+    // Call onSubscriptionRenewed for recurring payments (not the first charge)
+    if (isRenewal) {
+      await invokeCallback(
+        "onSubscriptionRenewed",
+        options.subscription.onSubscriptionRenewed,
+        {
+          event,
+          razorpaySubscription: razorpaySub,
+          subscription: (updatedSubscription || subscription) as Subscription,
+        },
+      );
     }
   } catch (error: any) {
     ctx.context.logger.error(
       `Razorpay webhook (subscription.charged) failed: ${error.message}`,
     );
+    throw error;
   }
 }
 
@@ -336,24 +416,46 @@ export async function onSubscriptionPending(
       return;
     }
 
+    if (isStaleEvent(subscription, event)) {
+      ctx.context.logger.info(
+        `Razorpay webhook: subscription.pending — ignoring stale event for subscription ${razorpaySub.id}`,
+      );
+      return;
+    }
+
     const updatedSubscription = await ctx.context.adapter.update<Subscription>({
       model: "subscription",
       update: {
-        status: "pending",
+        // The final dunning action holds while Razorpay keeps retrying
+        status: subscription.dunningEndedAt ? subscription.status : "pending",
+        // Dunning counts from the first failed payment
+        ...(subscription.pastDueSince
+          ? {}
+          : {
+              pastDueSince: timestampToDate(event.created_at) || new Date(),
+              dunningRemindersSent: 0,
+              dunningEndedAt: null,
+            }),
+        lastEventAt: timestampToDate(event.created_at),
         updatedAt: new Date(),
       },
       where: [{ field: "id", value: subscription.id }],
     });
 
-    await options.subscription.onSubscriptionPending?.({
-      event,
-      razorpaySubscription: razorpaySub,
-      subscription: (updatedSubscription || subscription) as Subscription,
-    });
+    await invokeCallback(
+      "onSubscriptionPending",
+      options.subscription.onSubscriptionPending,
+      {
+        event,
+        razorpaySubscription: razorpaySub,
+        subscription: (updatedSubscription || subscription) as Subscription,
+      },
+    );
   } catch (error: any) {
     ctx.context.logger.error(
       `Razorpay webhook (subscription.pending) failed: ${error.message}`,
     );
+    throw error;
   }
 }
 
@@ -384,24 +486,46 @@ export async function onSubscriptionHalted(
       return;
     }
 
+    if (isStaleEvent(subscription, event)) {
+      ctx.context.logger.info(
+        `Razorpay webhook: subscription.halted — ignoring stale event for subscription ${razorpaySub.id}`,
+      );
+      return;
+    }
+
     const updatedSubscription = await ctx.context.adapter.update<Subscription>({
       model: "subscription",
       update: {
-        status: "halted",
+        // The final dunning action holds while Razorpay keeps retrying
+        status: subscription.dunningEndedAt ? subscription.status : "halted",
+        // Dunning counts from the first failed payment
+        ...(subscription.pastDueSince
+          ? {}
+          : {
+              pastDueSince: timestampToDate(event.created_at) || new Date(),
+              dunningRemindersSent: 0,
+              dunningEndedAt: null,
+            }),
+        lastEventAt: timestampToDate(event.created_at),
         updatedAt: new Date(),
       },
       where: [{ field: "id", value: subscription.id }],
     });
 
-    await options.subscription.onSubscriptionHalted?.({
-      event,
-      razorpaySubscription: razorpaySub,
-      subscription: (updatedSubscription || subscription) as Subscription,
-    });
+    await invokeCallback(
+      "onSubscriptionHalted",
+      options.subscription.onSubscriptionHalted,
+      {
+        event,
+        razorpaySubscription: razorpaySub,
+        subscription: (updatedSubscription || subscription) as Subscription,
+      },
+    );
   } catch (error: any) {
     ctx.context.logger.error(
       `Razorpay webhook (subscription.halted) failed: ${error.message}`,
     );
+    throw error;
   }
 }
 
@@ -432,6 +556,13 @@ export async function onSubscriptionCompleted(
       return;
     }
 
+    if (isStaleEvent(subscription, event)) {
+      ctx.context.logger.info(
+        `Razorpay webhook: subscription.completed — ignoring stale event for subscription ${razorpaySub.id}`,
+      );
+      return;
+    }
+
     const updatedSubscription = await ctx.context.adapter.update<Subscription>({
       model: "subscription",
       update: {
@@ -439,20 +570,26 @@ export async function onSubscriptionCompleted(
         endedAt: timestampToDate(razorpaySub.ended_at) || new Date(),
         paidCount: razorpaySub.paid_count,
         remainingCount: 0,
+        lastEventAt: timestampToDate(event.created_at),
         updatedAt: new Date(),
       },
       where: [{ field: "id", value: subscription.id }],
     });
 
-    await options.subscription.onSubscriptionCompleted?.({
-      event,
-      razorpaySubscription: razorpaySub,
-      subscription: (updatedSubscription || subscription) as Subscription,
-    });
+    await invokeCallback(
+      "onSubscriptionCompleted",
+      options.subscription.onSubscriptionCompleted,
+      {
+        event,
+        razorpaySubscription: razorpaySub,
+        subscription: (updatedSubscription || subscription) as Subscription,
+      },
+    );
   } catch (error: any) {
     ctx.context.logger.error(
       `Razorpay webhook (subscription.completed) failed: ${error.message}`,
     );
+    throw error;
   }
 }
 
@@ -483,12 +620,28 @@ export async function onSubscriptionUpdated(
       return;
     }
 
+    if (isStaleEvent(subscription, event)) {
+      ctx.context.logger.info(
+        `Razorpay webhook: subscription.updated — ignoring stale event for subscription ${razorpaySub.id}`,
+      );
+      return;
+    }
+
     const plan = await getPlanByPlanId(options, razorpaySub.plan_id);
 
     const updatedSubscription = await ctx.context.adapter.update<Subscription>({
       model: "subscription",
       update: {
-        ...(plan ? { plan: plan.name.toLowerCase() } : {}),
+        ...(plan
+          ? {
+              plan: plan.name.toLowerCase(),
+              billingPeriod:
+                plan.annualPlanId === razorpaySub.plan_id
+                  ? "yearly"
+                  : "monthly",
+              ...(plan.group ? { groupId: plan.group } : {}),
+            }
+          : {}),
         status: toSubscriptionStatus(razorpaySub.status),
         razorpayPlanId: razorpaySub.plan_id,
         currentStart: timestampToDate(razorpaySub.current_start),
@@ -497,20 +650,26 @@ export async function onSubscriptionUpdated(
         totalCount: razorpaySub.total_count,
         paidCount: razorpaySub.paid_count,
         remainingCount: razorpaySub.remaining_count,
+        lastEventAt: timestampToDate(event.created_at),
         updatedAt: new Date(),
       },
       where: [{ field: "id", value: subscription.id }],
     });
 
-    await options.subscription.onSubscriptionUpdated?.({
-      event,
-      razorpaySubscription: razorpaySub,
-      subscription: (updatedSubscription || subscription) as Subscription,
-    });
+    await invokeCallback(
+      "onSubscriptionUpdated",
+      options.subscription.onSubscriptionUpdated,
+      {
+        event,
+        razorpaySubscription: razorpaySub,
+        subscription: (updatedSubscription || subscription) as Subscription,
+      },
+    );
   } catch (error: any) {
     ctx.context.logger.error(
       `Razorpay webhook (subscription.updated) failed: ${error.message}`,
     );
+    throw error;
   }
 }
 
@@ -541,25 +700,38 @@ export async function onSubscriptionPaused(
       return;
     }
 
+    if (isStaleEvent(subscription, event)) {
+      ctx.context.logger.info(
+        `Razorpay webhook: subscription.paused — ignoring stale event for subscription ${razorpaySub.id}`,
+      );
+      return;
+    }
+
     const updatedSubscription = await ctx.context.adapter.update<Subscription>({
       model: "subscription",
       update: {
         status: "paused",
         pausedAt: timestampToDate(razorpaySub.paused_at) || new Date(),
+        lastEventAt: timestampToDate(event.created_at),
         updatedAt: new Date(),
       },
       where: [{ field: "id", value: subscription.id }],
     });
 
-    await options.subscription.onSubscriptionPaused?.({
-      event,
-      razorpaySubscription: razorpaySub,
-      subscription: (updatedSubscription || subscription) as Subscription,
-    });
+    await invokeCallback(
+      "onSubscriptionPaused",
+      options.subscription.onSubscriptionPaused,
+      {
+        event,
+        razorpaySubscription: razorpaySub,
+        subscription: (updatedSubscription || subscription) as Subscription,
+      },
+    );
   } catch (error: any) {
     ctx.context.logger.error(
       `Razorpay webhook (subscription.paused) failed: ${error.message}`,
     );
+    throw error;
   }
 }
 
@@ -590,27 +762,41 @@ export async function onSubscriptionResumed(
       return;
     }
 
+    if (isStaleEvent(subscription, event)) {
+      ctx.context.logger.info(
+        `Razorpay webhook: subscription.resumed — ignoring stale event for subscription ${razorpaySub.id}`,
+      );
+      return;
+    }
+
     const updatedSubscription = await ctx.context.adapter.update<Subscription>({
       model: "subscription",
       update: {
         status: toSubscriptionStatus(razorpaySub.status),
         pausedAt: null,
+        resumeAt: null,
         currentStart: timestampToDate(razorpaySub.current_start),
         currentEnd: timestampToDate(razorpaySub.current_end),
+        lastEventAt: timestampToDate(event.created_at),
         updatedAt: new Date(),
       },
       where: [{ field: "id", value: subscription.id }],
     });
 
-    await options.subscription.onSubscriptionResumed?.({
-      event,
-      razorpaySubscription: razorpaySub,
-      subscription: (updatedSubscription || subscription) as Subscription,
-    });
+    await invokeCallback(
+      "onSubscriptionResumed",
+      options.subscription.onSubscriptionResumed,
+      {
+        event,
+        razorpaySubscription: razorpaySub,
+        subscription: (updatedSubscription || subscription) as Subscription,
+      },
+    );
   } catch (error: any) {
     ctx.context.logger.error(
       `Razorpay webhook (subscription.resumed) failed: ${error.message}`,
     );
+    throw error;
   }
 }
 
@@ -641,25 +827,794 @@ export async function onSubscriptionCancelled(
       return;
     }
 
+    if (isStaleEvent(subscription, event)) {
+      ctx.context.logger.info(
+        `Razorpay webhook: subscription.cancelled — ignoring stale event for subscription ${razorpaySub.id}`,
+      );
+      return;
+    }
+
     const updatedSubscription = await ctx.context.adapter.update<Subscription>({
       model: "subscription",
       update: {
-        status: "cancelled",
+        // Trials expired by the trial sweep keep their status
+        status: subscription.status === "expired" ? "expired" : "cancelled",
         cancelledAt: new Date(),
         endedAt: timestampToDate(razorpaySub.ended_at) || new Date(),
+        lastEventAt: timestampToDate(event.created_at),
         updatedAt: new Date(),
       },
       where: [{ field: "id", value: subscription.id }],
     });
 
-    await options.subscription.onSubscriptionCancelled?.({
-      event,
-      razorpaySubscription: razorpaySub,
-      subscription: (updatedSubscription || subscription) as Subscription,
-    });
+    await invokeCallback(
+      "onSubscriptionCancelled",
+      options.subscription.onSubscriptionCancelled,
+      {
+        event,
+        razorpaySubscription: razorpaySub,
+        subscription: (updatedSubscription || subscription) as Subscription,
+      },
+    );
   } catch (error: any) {
     ctx.context.logger.error(
       `Razorpay webhook (subscription.cancelled) failed: ${error.message}`,
     );
+    throw error;
+  }
+}
+
+/**
+ * Order of payment statuses, used to keep a delayed event from moving a
+ * payment back to an earlier status.
+ * @internal
+ */
+const PAYMENT_STATUS_RANK: Record<RazorpayPaymentStatus, number> = {
+  created: 0,
+  authorized: 1,
+  captured: 2,
+  failed: 2,
+  refunded: 3,
+};
+
+/**
+ * Create or update the local payment record for a Razorpay payment entity,
+ * linking it to a subscription and reference where possible.
+ * @internal
+ */
+async function upsertPayment(
+  ctx: GenericEndpointContext,
+  options: RazorpayOptions,
+  event: RazorpayWebhookEvent,
+  razorpayPayment: RazorpayPaymentEntity,
+): Promise<Payment> {
+  const existing = await ctx.context.adapter.findOne<Payment>({
+    model: "payment",
+    where: [{ field: "razorpayPaymentId", value: razorpayPayment.id }],
+  });
+
+  let razorpaySubscriptionId =
+    event.payload.subscription?.entity.id ??
+    event.payload.invoice?.entity.subscription_id ??
+    existing?.razorpaySubscriptionId;
+  if (
+    !razorpaySubscriptionId &&
+    razorpayPayment.invoice_id &&
+    options.subscription?.enabled
+  ) {
+    // Subscription payments reference the invoice they settle
+    const invoice = await ctx.context.adapter.findOne<Invoice>({
+      model: "invoice",
+      where: [
+        { field: "razorpayInvoiceId", value: razorpayPayment.invoice_id },
+      ],
+    });
+    razorpaySubscriptionId = invoice?.razorpaySubscriptionId;
+  }
+  const subscription =
+    razorpaySubscriptionId && options.subscription?.enabled
+      ? await findSubscriptionByRazorpayId(ctx, razorpaySubscriptionId)
+      : null;
+
+  let referenceId = existing?.referenceId ?? subscription?.referenceId;
+  if (!referenceId && razorpayPayment.customer_id) {
+    const ref = await findReferenceByRazorpayCustomerId(
+      ctx,
+      options,
+      razorpayPayment.customer_id,
+    );
+    referenceId = ref?.referenceId;
+  }
+
+  const status =
+    existing &&
+    PAYMENT_STATUS_RANK[existing.status] >
+      PAYMENT_STATUS_RANK[razorpayPayment.status]
+      ? existing.status
+      : razorpayPayment.status;
+
+  const data = {
+    razorpayOrderId: razorpayPayment.order_id ?? undefined,
+    razorpayInvoiceId: razorpayPayment.invoice_id ?? undefined,
+    razorpaySubscriptionId,
+    razorpayCustomerId: razorpayPayment.customer_id ?? undefined,
+    subscriptionId: subscription?.id ?? existing?.subscriptionId,
+    referenceId,
+    amount: razorpayPayment.amount,
+    currency: razorpayPayment.currency,
+    status,
+    method: razorpayPayment.method,
+    email: razorpayPayment.email,
+    contact: razorpayPayment.contact,
+    errorCode: razorpayPayment.error_code ?? undefined,
+    errorDescription: razorpayPayment.error_description ?? undefined,
+    ...(status === "captured" && !existing?.capturedAt
+      ? { capturedAt: timestampToDate(event.created_at) || new Date() }
+      : {}),
+    updatedAt: new Date(),
+  };
+
+  if (existing) {
+    const updated = await ctx.context.adapter.update<Payment>({
+      model: "payment",
+      update: data,
+      where: [{ field: "id", value: existing.id }],
+    });
+    return updated || { ...existing, ...data };
+  }
+
+  return await ctx.context.adapter.create<Payment>({
+    model: "payment",
+    data: {
+      ...data,
+      razorpayPaymentId: razorpayPayment.id,
+      createdAt: timestampToDate(razorpayPayment.created_at) || new Date(),
+    },
+  });
+}
+
+/**
+ * payment.authorized
+ *
+ * The payment has been authorized but not yet captured.
+ */
+export async function onPaymentAuthorized(
+  ctx: GenericEndpointContext,
+  options: RazorpayOptions,
+  event: RazorpayWebhookEvent,
+) {
+  try {
+    const razorpayPayment = event.payload.payment?.entity;
+    if (!razorpayPayment) return;
+
+    await upsertPayment(ctx, options, event, razorpayPayment);
+  } catch (error: any) {
+    ctx.context.logger.error(
+      `Razorpay webhook (payment.authorized) failed: ${error.message}`,
+    );
+    throw error;
+  }
+}
+
+/**
+ * payment.captured
+ *
+ * The payment has been captured and the funds will be settled.
+ */
+export async function onPaymentCaptured(
+  ctx: GenericEndpointContext,
+  options: RazorpayOptions,
+  event: RazorpayWebhookEvent,
+) {
+  try {
+    const razorpayPayment = event.payload.payment?.entity;
+    if (!razorpayPayment) return;
+
+    const payment = await upsertPayment(ctx, options, event, razorpayPayment);
+
+    await invokeCallback(
+      "onPaymentCaptured",
+      options.onPaymentCaptured,
+      { event, razorpayPayment, payment },
+      ctx,
+    );
+  } catch (error: any) {
+    ctx.context.logger.error(
+      `Razorpay webhook (payment.captured) failed: ${error.message}`,
+    );
+    throw error;
+  }
+}
+
+/**
+ * payment.failed
+ *
+ * The payment attempt has failed.
+ */
+export async function onPaymentFailed(
+  ctx: GenericEndpointContext,
+  options: RazorpayOptions,
+  event: RazorpayWebhookEvent,
+) {
+  try {
+    const razorpayPayment = event.payload.payment?.entity;
+    if (!razorpayPayment) return;
+
+    const payment = await upsertPayment(ctx, options, event, razorpayPayment);
+
+    await invokeCallback(
+      "onPaymentFailed",
+      options.onPaymentFailed,
+      { event, razorpayPayment, payment },
+      ctx,
+    );
+  } catch (error: any) {
+    ctx.context.logger.error(
+      `Razorpay webhook (payment.failed) failed: ${error.message}`,
+    );
+    throw error;
+  }
+}
+
+/**
+ * Create or update the local invoice record for a Razorpay invoice entity,
+ * linking it to a subscription and reference where possible.
+ * @internal
+ */
+async function upsertInvoice(
+  ctx: GenericEndpointContext,
+  options: RazorpayOptions,
+  razorpayInvoice: RazorpayInvoiceEntity,
+): Promise<Invoice> {
+  const existing = await ctx.context.adapter.findOne<Invoice>({
+    model: "invoice",
+    where: [{ field: "razorpayInvoiceId", value: razorpayInvoice.id }],
+  });
+
+  const razorpaySubscriptionId =
+    razorpayInvoice.subscription_id ?? existing?.razorpaySubscriptionId;
+  const subscription =
+    razorpaySubscriptionId && options.subscription?.enabled
+      ? await findSubscriptionByRazorpayId(ctx, razorpaySubscriptionId)
+      : null;
+
+  let referenceId = existing?.referenceId ?? subscription?.referenceId;
+  if (!referenceId && razorpayInvoice.customer_id) {
+    const ref = await findReferenceByRazorpayCustomerId(
+      ctx,
+      options,
+      razorpayInvoice.customer_id,
+    );
+    referenceId = ref?.referenceId;
+  }
+
+  const data = {
+    invoiceNumber: razorpayInvoice.invoice_number ?? undefined,
+    razorpaySubscriptionId: razorpaySubscriptionId ?? undefined,
+    razorpayCustomerId: razorpayInvoice.customer_id ?? undefined,
+    razorpayPaymentId: razorpayInvoice.payment_id ?? undefined,
+    razorpayOrderId: razorpayInvoice.order_id ?? undefined,
+    subscriptionId: subscription?.id ?? existing?.subscriptionId,
+    referenceId,
+    status: razorpayInvoice.status,
+    amount: razorpayInvoice.amount,
+    amountPaid: razorpayInvoice.amount_paid,
+    amountDue: razorpayInvoice.amount_due,
+    taxAmount: razorpayInvoice.tax_amount,
+    currency: razorpayInvoice.currency,
+    shortUrl: razorpayInvoice.short_url ?? undefined,
+    billingStart: timestampToDate(razorpayInvoice.billing_start),
+    billingEnd: timestampToDate(razorpayInvoice.billing_end),
+    issuedAt: timestampToDate(razorpayInvoice.issued_at),
+    paidAt: timestampToDate(razorpayInvoice.paid_at),
+    expiredAt: timestampToDate(razorpayInvoice.expired_at),
+    updatedAt: new Date(),
+  };
+
+  if (existing) {
+    const updated = await ctx.context.adapter.update<Invoice>({
+      model: "invoice",
+      update: data,
+      where: [{ field: "id", value: existing.id }],
+    });
+    return updated || { ...existing, ...data };
+  }
+
+  return await ctx.context.adapter.create<Invoice>({
+    model: "invoice",
+    data: {
+      ...data,
+      razorpayInvoiceId: razorpayInvoice.id,
+      createdAt: timestampToDate(razorpayInvoice.created_at) || new Date(),
+    },
+  });
+}
+
+/**
+ * invoice.paid
+ *
+ * The invoice has been paid in full.
+ */
+export async function onInvoicePaid(
+  ctx: GenericEndpointContext,
+  options: RazorpayOptions,
+  event: RazorpayWebhookEvent,
+) {
+  try {
+    const razorpayInvoice = event.payload.invoice?.entity;
+    if (!razorpayInvoice) return;
+
+    await upsertInvoice(ctx, options, razorpayInvoice);
+
+    const razorpayPayment = event.payload.payment?.entity;
+    if (razorpayPayment) {
+      await upsertPayment(ctx, options, event, razorpayPayment);
+    }
+  } catch (error: any) {
+    ctx.context.logger.error(
+      `Razorpay webhook (invoice.paid) failed: ${error.message}`,
+    );
+    throw error;
+  }
+}
+
+/**
+ * invoice.partially_paid
+ *
+ * A payment was made against the invoice but an amount is still due.
+ */
+export async function onInvoicePartiallyPaid(
+  ctx: GenericEndpointContext,
+  options: RazorpayOptions,
+  event: RazorpayWebhookEvent,
+) {
+  try {
+    const razorpayInvoice = event.payload.invoice?.entity;
+    if (!razorpayInvoice) return;
+
+    await upsertInvoice(ctx, options, razorpayInvoice);
+
+    const razorpayPayment = event.payload.payment?.entity;
+    if (razorpayPayment) {
+      await upsertPayment(ctx, options, event, razorpayPayment);
+    }
+  } catch (error: any) {
+    ctx.context.logger.error(
+      `Razorpay webhook (invoice.partially_paid) failed: ${error.message}`,
+    );
+    throw error;
+  }
+}
+
+/**
+ * invoice.expired
+ *
+ * The invoice expired before it was paid.
+ */
+export async function onInvoiceExpired(
+  ctx: GenericEndpointContext,
+  options: RazorpayOptions,
+  event: RazorpayWebhookEvent,
+) {
+  try {
+    const razorpayInvoice = event.payload.invoice?.entity;
+    if (!razorpayInvoice) return;
+
+    await upsertInvoice(ctx, options, razorpayInvoice);
+  } catch (error: any) {
+    ctx.context.logger.error(
+      `Razorpay webhook (invoice.expired) failed: ${error.message}`,
+    );
+    throw error;
+  }
+}
+
+/**
+ * Order of refund statuses, used to keep a delayed event from moving a
+ * refund back to pending.
+ * @internal
+ */
+const REFUND_STATUS_RANK: Record<RazorpayRefundStatus, number> = {
+  pending: 0,
+  processed: 1,
+  failed: 1,
+};
+
+/**
+ * Create or update the local refund record for a Razorpay refund entity,
+ * linking it to the refunded payment and its subscription.
+ * @internal
+ */
+export async function upsertRefund(
+  ctx: GenericEndpointContext,
+  razorpayRefund: RazorpayRefundEntity,
+): Promise<Refund> {
+  const existing = await ctx.context.adapter.findOne<Refund>({
+    model: "refund",
+    where: [{ field: "razorpayRefundId", value: razorpayRefund.id }],
+  });
+  const payment = await ctx.context.adapter.findOne<Payment>({
+    model: "payment",
+    where: [{ field: "razorpayPaymentId", value: razorpayRefund.payment_id }],
+  });
+
+  const status =
+    existing &&
+    REFUND_STATUS_RANK[existing.status] >
+      REFUND_STATUS_RANK[razorpayRefund.status]
+      ? existing.status
+      : razorpayRefund.status;
+
+  const data = {
+    razorpayPaymentId: razorpayRefund.payment_id,
+    paymentId: payment?.id ?? existing?.paymentId,
+    subscriptionId: payment?.subscriptionId ?? existing?.subscriptionId,
+    referenceId: payment?.referenceId ?? existing?.referenceId,
+    amount: razorpayRefund.amount,
+    currency: razorpayRefund.currency,
+    status,
+    speedRequested: razorpayRefund.speed_requested,
+    speedProcessed: razorpayRefund.speed_processed ?? undefined,
+    receipt: razorpayRefund.receipt ?? undefined,
+    ...(status === "processed" && !existing?.processedAt
+      ? { processedAt: new Date() }
+      : {}),
+    updatedAt: new Date(),
+  };
+
+  if (existing) {
+    const updated = await ctx.context.adapter.update<Refund>({
+      model: "refund",
+      update: data,
+      where: [{ field: "id", value: existing.id }],
+    });
+    return updated || { ...existing, ...data };
+  }
+
+  return await ctx.context.adapter.create<Refund>({
+    model: "refund",
+    data: {
+      ...data,
+      razorpayRefundId: razorpayRefund.id,
+      createdAt: timestampToDate(razorpayRefund.created_at) || new Date(),
+    },
+  });
+}
+
+/**
+ * refund.created
+ *
+ * A refund has been initiated against a payment.
+ */
+export async function onRefundCreated(
+  ctx: GenericEndpointContext,
+  options: RazorpayOptions,
+  event: RazorpayWebhookEvent,
+) {
+  try {
+    const razorpayRefund = event.payload.refund?.entity;
+    if (!razorpayRefund) return;
+
+    const razorpayPayment = event.payload.payment?.entity;
+    if (razorpayPayment) {
+      await upsertPayment(ctx, options, event, razorpayPayment);
+    }
+    await upsertRefund(ctx, razorpayRefund);
+  } catch (error: any) {
+    ctx.context.logger.error(
+      `Razorpay webhook (refund.created) failed: ${error.message}`,
+    );
+    throw error;
+  }
+}
+
+/**
+ * refund.processed
+ *
+ * The refund has been processed and the amount sent to the customer.
+ */
+export async function onRefundProcessed(
+  ctx: GenericEndpointContext,
+  options: RazorpayOptions,
+  event: RazorpayWebhookEvent,
+) {
+  try {
+    const razorpayRefund = event.payload.refund?.entity;
+    if (!razorpayRefund) return;
+
+    const razorpayPayment = event.payload.payment?.entity;
+    if (razorpayPayment) {
+      await upsertPayment(ctx, options, event, razorpayPayment);
+    }
+    await upsertRefund(ctx, razorpayRefund);
+  } catch (error: any) {
+    ctx.context.logger.error(
+      `Razorpay webhook (refund.processed) failed: ${error.message}`,
+    );
+    throw error;
+  }
+}
+
+/**
+ * refund.failed
+ *
+ * The refund could not be processed.
+ */
+export async function onRefundFailed(
+  ctx: GenericEndpointContext,
+  options: RazorpayOptions,
+  event: RazorpayWebhookEvent,
+) {
+  try {
+    const razorpayRefund = event.payload.refund?.entity;
+    if (!razorpayRefund) return;
+
+    const razorpayPayment = event.payload.payment?.entity;
+    if (razorpayPayment) {
+      await upsertPayment(ctx, options, event, razorpayPayment);
+    }
+    await upsertRefund(ctx, razorpayRefund);
+  } catch (error: any) {
+    ctx.context.logger.error(
+      `Razorpay webhook (refund.failed) failed: ${error.message}`,
+    );
+    throw error;
+  }
+}
+
+/**
+ * Order of dispute statuses, used to keep a delayed event from reopening
+ * a resolved dispute.
+ * @internal
+ */
+const DISPUTE_STATUS_RANK: Record<RazorpayDisputeStatus, number> = {
+  open: 0,
+  under_review: 1,
+  won: 2,
+  lost: 2,
+  closed: 2,
+};
+
+/**
+ * Create or update the local dispute record for a Razorpay dispute entity,
+ * linking it to the disputed payment and its subscription.
+ * @internal
+ */
+async function upsertDispute(
+  ctx: GenericEndpointContext,
+  razorpayDispute: RazorpayDisputeEntity,
+): Promise<Dispute> {
+  const existing = await ctx.context.adapter.findOne<Dispute>({
+    model: "dispute",
+    where: [{ field: "razorpayDisputeId", value: razorpayDispute.id }],
+  });
+  const payment = await ctx.context.adapter.findOne<Payment>({
+    model: "payment",
+    where: [{ field: "razorpayPaymentId", value: razorpayDispute.payment_id }],
+  });
+
+  const status =
+    existing &&
+    DISPUTE_STATUS_RANK[existing.status] >
+      DISPUTE_STATUS_RANK[razorpayDispute.status]
+      ? existing.status
+      : razorpayDispute.status;
+
+  const data = {
+    razorpayPaymentId: razorpayDispute.payment_id,
+    paymentId: payment?.id ?? existing?.paymentId,
+    subscriptionId: payment?.subscriptionId ?? existing?.subscriptionId,
+    referenceId: payment?.referenceId ?? existing?.referenceId,
+    amount: razorpayDispute.amount,
+    amountDeducted: razorpayDispute.amount_deducted,
+    currency: razorpayDispute.currency,
+    reasonCode: razorpayDispute.reason_code,
+    reasonDescription: razorpayDispute.reason_description ?? undefined,
+    status,
+    phase: razorpayDispute.phase,
+    respondBy: timestampToDate(razorpayDispute.respond_by),
+    ...(DISPUTE_STATUS_RANK[status] === 2 && !existing?.resolvedAt
+      ? { resolvedAt: new Date() }
+      : {}),
+    updatedAt: new Date(),
+  };
+
+  if (existing) {
+    const updated = await ctx.context.adapter.update<Dispute>({
+      model: "dispute",
+      update: data,
+      where: [{ field: "id", value: existing.id }],
+    });
+    return updated || { ...existing, ...data };
+  }
+
+  return await ctx.context.adapter.create<Dispute>({
+    model: "dispute",
+    data: {
+      ...data,
+      razorpayDisputeId: razorpayDispute.id,
+      createdAt: timestampToDate(razorpayDispute.created_at) || new Date(),
+    },
+  });
+}
+
+/**
+ * Store the payment and dispute carried by a `payment.dispute.*` event.
+ * @internal
+ */
+async function syncDispute(
+  ctx: GenericEndpointContext,
+  options: RazorpayOptions,
+  event: RazorpayWebhookEvent,
+): Promise<{
+  razorpayDispute: RazorpayDisputeEntity;
+  dispute: Dispute;
+} | null> {
+  const razorpayDispute = event.payload.dispute?.entity;
+  if (!razorpayDispute) return null;
+
+  const razorpayPayment = event.payload.payment?.entity;
+  if (razorpayPayment) {
+    await upsertPayment(ctx, options, event, razorpayPayment);
+  }
+  const dispute = await upsertDispute(ctx, razorpayDispute);
+  return { razorpayDispute, dispute };
+}
+
+/**
+ * Pause or cancel the subscription linked to a lost dispute, according
+ * to `subscription.disputeLostPolicy`.
+ * @internal
+ */
+async function applyDisputeLostPolicy(
+  ctx: GenericEndpointContext,
+  options: RazorpayOptions,
+  dispute: Dispute,
+) {
+  if (!options.subscription?.enabled) return;
+  const policy = options.subscription.disputeLostPolicy ?? "none";
+  if (policy === "none" || !dispute.subscriptionId) return;
+
+  const subscription = await ctx.context.adapter.findOne<Subscription>({
+    model: "subscription",
+    where: [{ field: "id", value: dispute.subscriptionId }],
+  });
+  if (!subscription?.razorpaySubscriptionId || isTerminal(subscription)) {
+    return;
+  }
+
+  const client = options.razorpayClient;
+  if (policy === "pause") {
+    // Razorpay can only pause active subscriptions
+    if (!isActive(subscription)) return;
+    await (client.subscriptions as any).pause(
+      subscription.razorpaySubscriptionId,
+      { pause_at: "now" },
+    );
+    await ctx.context.adapter.update({
+      model: "subscription",
+      update: {
+        status: "paused",
+        pausedAt: new Date(),
+        updatedAt: new Date(),
+      },
+      where: [{ field: "id", value: subscription.id }],
+    });
+  } else {
+    await (client.subscriptions as any).cancel(
+      subscription.razorpaySubscriptionId,
+      false,
+    );
+    await ctx.context.adapter.update({
+      model: "subscription",
+      update: {
+        status: "cancelled",
+        cancelledAt: new Date(),
+        updatedAt: new Date(),
+      },
+      where: [{ field: "id", value: subscription.id }],
+    });
+  }
+
+  ctx.context.logger.info(
+    `Razorpay webhook: applied dispute lost policy "${policy}" to subscription ${subscription.id} (dispute ${dispute.razorpayDisputeId})`,
+  );
+}
+
+/**
+ * payment.dispute.created
+ *
+ * A customer has raised a dispute against a payment.
+ */
+export async function onDisputeCreated(
+  ctx: GenericEndpointContext,
+  options: RazorpayOptions,
+  event: RazorpayWebhookEvent,
+) {
+  try {
+    const result = await syncDispute(ctx, options, event);
+    if (!result) return;
+
+    await invokeCallback(
+      "onDisputeCreated",
+      options.onDisputeCreated,
+      { event, ...result },
+      ctx,
+    );
+  } catch (error: any) {
+    ctx.context.logger.error(
+      `Razorpay webhook (payment.dispute.created) failed: ${error.message}`,
+    );
+    throw error;
+  }
+}
+
+/**
+ * payment.dispute.won
+ *
+ * The dispute was resolved in the merchant's favour.
+ */
+export async function onDisputeWon(
+  ctx: GenericEndpointContext,
+  options: RazorpayOptions,
+  event: RazorpayWebhookEvent,
+) {
+  try {
+    await syncDispute(ctx, options, event);
+  } catch (error: any) {
+    ctx.context.logger.error(
+      `Razorpay webhook (payment.dispute.won) failed: ${error.message}`,
+    );
+    throw error;
+  }
+}
+
+/**
+ * payment.dispute.lost
+ *
+ * The dispute was resolved in the customer's favour. Applies the
+ * configured `disputeLostPolicy` to the linked subscription.
+ */
+export async function onDisputeLost(
+  ctx: GenericEndpointContext,
+  options: RazorpayOptions,
+  event: RazorpayWebhookEvent,
+) {
+  try {
+    const result = await syncDispute(ctx, options, event);
+    if (!result) return;
+
+    await applyDisputeLostPolicy(ctx, options, result.dispute);
+    await invokeCallback(
+      "onDisputeLost",
+      options.onDisputeLost,
+      { event, ...result },
+      ctx,
+    );
+  } catch (error: any) {
+    ctx.context.logger.error(
+      `Razorpay webhook (payment.dispute.lost) failed: ${error.message}`,
+    );
+    throw error;
+  }
+}
+
+/**
+ * payment.dispute.closed
+ *
+ * The dispute was closed, e.g. after the merchant accepted it.
+ */
+export async function onDisputeClosed(
+  ctx: GenericEndpointContext,
+  options: RazorpayOptions,
+  event: RazorpayWebhookEvent,
+) {
+  try {
+    await syncDispute(ctx, options, event);
+  } catch (error: any) {
+    ctx.context.logger.error(
+      `Razorpay webhook (payment.dispute.closed) failed: ${error.message}`,
+    );
+    throw error;
   }
 }
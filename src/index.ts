@@ -4,10 +4,12 @@ import { APIError } from "better-call";
 import { RAZORPAY_ERROR_CODES } from "./error-codes";
 import { customerNotes } from "./metadata";
 import {
+    billUsage,
     cancelPendingUpdate,
     cancelSubscription,
     createCustomer,
     createPlan,
+    createRefund,
     createSubscriptionLink,
     deleteOffer,
     editCustomer,
@@ -16,14 +18,25 @@ import {
     fetchPendingUpdate,
     fetchPlan,
     fetchSubscription,
+    getEntitlements,
     getSubscription,
+    getSubscriptionEntitlements,
+    getSubscriptionPaymentLink,
+    listInvoices,
     linkOffer,
     listCustomers,
     listPlans,
     listSubscriptions,
+    listWebhookDeadLetters,
     pauseSubscription,
+    previewSubscriptionChange,
+    processDunning,
+    processTrials,
     razorpayWebhook,
+    replayWebhookDeadLetters,
+    reportUsage,
     restoreSubscription,
+    resumeDueSubscriptions,
     resumeSubscription,
     updateSubscription,
     upgradeSubscription,
@@ -49,13 +62,23 @@ export const razorpay = <O extends RazorpayOptions>(options: O) => {
 
   const subscriptionEndpoints = {
     upgradeSubscription: upgradeSubscription(options),
+    previewSubscriptionChange: previewSubscriptionChange(options),
     cancelSubscription: cancelSubscription(options),
     pauseSubscription: pauseSubscription(options),
     resumeSubscription: resumeSubscription(options),
     listSubscriptions: listSubscriptions(options),
     updateSubscription: updateSubscription(options),
     restoreSubscription: restoreSubscription(options),
+    resumeDueSubscriptions: resumeDueSubscriptions(options),
+    processTrials: processTrials(options),
+    processDunning: processDunning(options),
+    reportUsage: reportUsage(options),
+    billUsage: billUsage(options),
+    getSubscriptionPaymentLink: getSubscriptionPaymentLink(options),
+    getSubscriptionEntitlements: getSubscriptionEntitlements(options),
+    getEntitlements: getEntitlements(options),
     getSubscription: getSubscription(options),
+    listInvoices: listInvoices(options),
   };
 
   const razorpaySpecificEndpoints = {
@@ -73,6 +96,9 @@ export const razorpay = <O extends RazorpayOptions>(options: O) => {
     editCustomer: editCustomer(options),
     listCustomers: listCustomers(options),
     fetchCustomer: fetchCustomer(options),
+    createRefund: createRefund(options),
+    listWebhookDeadLetters: listWebhookDeadLetters(options),
+    replayWebhookDeadLetters: replayWebhookDeadLetters(options),
   };
 
   return {
@@ -371,3 +397,6 @@ export const razorpay = <O extends RazorpayOptions>(options: O) => {
 export type RazorpayPlugin<O extends RazorpayOptions> = ReturnType<
   typeof razorpay<O>
 >;
+
+export { hasFeature } from "./entitlements";
+export { RazorpayCallbackError } from "./utils";
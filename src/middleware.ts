@@ -1,10 +1,12 @@
 import { createAuthMiddleware } from "@better-auth/core/api";
-import { sessionMiddleware } from "better-auth/api";
+import { getSessionFromCtx, sessionMiddleware } from "better-auth/api";
 import { RAZORPAY_ERROR_CODES } from "./error-codes";
 import type {
+  AdminAction,
   AuthorizeReferenceAction,
   CustomerType,
   RazorpayCtxSession,
+  RazorpayOptions,
   SubscriptionOptions,
 } from "./types";
 import { createAPIError } from "./utils";
@@ -102,3 +104,41 @@ export const referenceMiddleware = (
       throw createAPIError("UNAUTHORIZED", RAZORPAY_ERROR_CODES.UNAUTHORIZED);
     }
   });
+
+export const adminMiddleware = (
+  options: RazorpayOptions,
+  action: AdminAction,
+) =>
+  createAuthMiddleware(async (ctx) => {
+    // Direct server-side calls (auth.api.*) have no request and are trusted
+    if (!ctx.request) {
+      return;
+    }
+
+    const session = await getSessionFromCtx(ctx);
+    if (!session) {
+      throw createAPIError("UNAUTHORIZED", RAZORPAY_ERROR_CODES.UNAUTHORIZED);
+    }
+
+    if (!options.authorizeAdmin) {
+      ctx.context.logger.error(
+        `Admin endpoints require authorizeAdmin to be defined in your razorpay plugin config.`,
+      );
+      throw createAPIError(
+        "BAD_REQUEST",
+        RAZORPAY_ERROR_CODES.AUTHORIZE_ADMIN_REQUIRED,
+      );
+    }
+
+    const isAuthorized = await options.authorizeAdmin(
+      {
+        user: session.user,
+        session: session.session,
+        action,
+      },
+      ctx,
+    );
+    if (!isAuthorized) {
+      throw createAPIError("UNAUTHORIZED", RAZORPAY_ERROR_CODES.UNAUTHORIZED);
+    }
+  });
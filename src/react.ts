@@ -22,7 +22,7 @@ import {
   type UseMutationOptions,
   type UseQueryOptions,
 } from "@tanstack/react-query";
-import type { Subscription } from "./types";
+import type { Entitlements, Invoice, Subscription } from "./types";
 
 // ─── Type Helpers ────────────────────────────────────────────────────────────
 
@@ -40,6 +40,8 @@ type RazorpayAuthClient = {
     restore: (body: any) => Promise<any>;
     update: (body: any) => Promise<any>;
     get: (query: any) => Promise<any>;
+    invoices: (query?: any) => Promise<any>;
+    entitlements: (query?: any) => Promise<any>;
   };
   razorpay: {
     subscription: {
@@ -73,6 +75,22 @@ export const razorpayQueryKeys = {
       "razorpay",
       subscriptionId,
     ] as const,
+  invoiceList: (
+    referenceId?: string,
+    customerType?: string,
+    subscriptionId?: string,
+  ) =>
+    [
+      ...razorpayQueryKeys.subscriptions(),
+      "invoice-list",
+      { referenceId, customerType, subscriptionId },
+    ] as const,
+  entitlements: (referenceId?: string, customerType?: string) =>
+    [
+      ...razorpayQueryKeys.subscriptions(),
+      "entitlements",
+      { referenceId, customerType },
+    ] as const,
   invoices: (subscriptionId: string) =>
     [...razorpayQueryKeys.subscriptions(), "invoices", subscriptionId] as const,
   pendingUpdate: (subscriptionId: string) =>
@@ -169,6 +187,95 @@ export function useSubscription(
   });
 }
 
+/**
+ * List invoices stored from webhooks for the current user or reference.
+ * Served from the local database, without calling Razorpay.
+ *
+ * @example
+ * ```tsx
+ * const { data: invoices } = useInvoiceList(authClient, {
+ *   subscriptionId: "sub_123",
+ * });
+ * ```
+ */
+export function useInvoiceList(
+  authClient: RazorpayAuthClient,
+  options?: {
+    referenceId?: string;
+    customerType?: "user" | "organization";
+    subscriptionId?: string;
+    queryOptions?: Omit<
+      UseQueryOptions<Invoice[], Error>,
+      "queryKey" | "queryFn"
+    >;
+  },
+) {
+  const referenceId = options?.referenceId;
+  const customerType = options?.customerType;
+  const subscriptionId = options?.subscriptionId;
+
+  return useQuery<Invoice[], Error>({
+    queryKey: razorpayQueryKeys.invoiceList(
+      referenceId,
+      customerType,
+      subscriptionId,
+    ),
+    queryFn: async () => {
+      const { data, error } = await authClient.subscription.invoices({
+        query: {
+          ...(referenceId ? { referenceId } : {}),
+          ...(customerType ? { customerType } : {}),
+          ...(subscriptionId ? { subscriptionId } : {}),
+        },
+      });
+      if (error) throw error;
+      return data as Invoice[];
+    },
+    ...options?.queryOptions,
+  });
+}
+
+/**
+ * Fetch what the current user or reference is entitled to: the merged
+ * `limits` of its subscribed plans. Pair with `hasFeature` from
+ * `better-auth-razorpay/client`.
+ *
+ * @example
+ * ```tsx
+ * const { data: entitlements } = useEntitlements(authClient);
+ * const canUseSso = !!entitlements && hasFeature(entitlements, "sso");
+ * ```
+ */
+export function useEntitlements(
+  authClient: RazorpayAuthClient,
+  options?: {
+    referenceId?: string;
+    customerType?: "user" | "organization";
+    queryOptions?: Omit<
+      UseQueryOptions<Entitlements, Error>,
+      "queryKey" | "queryFn"
+    >;
+  },
+) {
+  const referenceId = options?.referenceId;
+  const customerType = options?.customerType;
+
+  return useQuery<Entitlements, Error>({
+    queryKey: razorpayQueryKeys.entitlements(referenceId, customerType),
+    queryFn: async () => {
+      const { data, error } = await authClient.subscription.entitlements({
+        query: {
+          ...(referenceId ? { referenceId } : {}),
+          ...(customerType ? { customerType } : {}),
+        },
+      });
+      if (error) throw error;
+      return data as Entitlements;
+    },
+    ...options?.queryOptions,
+  });
+}
+
 /**
  * Fetch invoices for a Razorpay subscription.
  *
@@ -546,10 +653,11 @@ export function useSubscriptionStatus(subscription: Subscription | null | undefi
   const isPaused = status === "paused";
   const isCancelled = status === "cancelled";
   const isTrialing =
-    isAuthenticated &&
-    subscription.trialStart !== undefined &&
-    subscription.trialStart !== null &&
-    (subscription.trialEnd === undefined || subscription.trialEnd === null);
+    status === "trialing" ||
+    (isAuthenticated &&
+      subscription.trialStart !== undefined &&
+      subscription.trialStart !== null &&
+      (subscription.trialEnd === undefined || subscription.trialEnd === null));
 
   return {
     isActive,
@@ -561,7 +669,7 @@ export function useSubscriptionStatus(subscription: Subscription | null | undefi
     isHalted: status === "halted",
     isPending: status === "pending",
     isTrialing,
-    isUsable: isActive || isAuthenticated,
+    isUsable: isActive || isAuthenticated || status === "trialing",
     isTerminal: isCancelled || status === "completed" || status === "expired",
     hasPaymentIssue: status === "pending" || status === "halted",
     canRestore: subscription.cancelAtCycleEnd === true && isActive,
@@ -1,35 +1,53 @@
 import { createAuthEndpoint } from "@better-auth/core/api";
-import * as crypto from "node:crypto";
+import type { GenericEndpointContext } from "@better-auth/core";
 import { z } from "zod";
 import { RAZORPAY_ERROR_CODES } from "./error-codes";
-import {
-  onSubscriptionActivated,
-  onSubscriptionAuthenticated,
-  onSubscriptionCancelled,
-  onSubscriptionCharged,
-  onSubscriptionCompleted,
-  onSubscriptionHalted,
-  onSubscriptionPaused,
-  onSubscriptionPending,
-  onSubscriptionResumed,
-  onSubscriptionUpdated,
-} from "./hooks";
 import { subscriptionNotes } from "./metadata";
-import { razorpaySessionMiddleware, referenceMiddleware } from "./middleware";
+import {
+  adminMiddleware,
+  razorpaySessionMiddleware,
+  referenceMiddleware,
+} from "./middleware";
 import type {
+  Invoice,
+  PlanChangePricing,
+  RazorpayAddonEntity,
   RazorpayOptions,
+  RazorpayPlan,
+  RazorpayRefundEntity,
+  RazorpaySubscriptionEntity,
   RazorpayWebhookEvent,
   Subscription,
+  SubscriptionChangePreview,
+  UsageRecord,
+  WebhookDeadLetter,
   WithRazorpayCustomerId,
 } from "./types";
+import { upsertRefund } from "./hooks";
 import {
+  addBillingCycle,
   createAPIError,
+  estimateProration,
+  getPlanByPlanId,
   getPlans,
+  invokeCallback,
   isActive,
   isCancelled,
   isPaused,
   isTerminal,
+  resolveEntitlements,
+  selectSubscription,
+  toMonthlyAmount,
 } from "./utils";
+import {
+  isWellFormedSignature,
+  isWithinTolerance,
+  processWebhookEvent,
+  readWebhookRawBody,
+  replayDeadLetter,
+  resolveWebhookSecrets,
+  verifyWebhookSignature,
+} from "./webhook";
 
 // ─── Zod Schemas ─────────────────────────────────────────────────────────────
 
@@ -51,21 +69,41 @@ const upgradeSubscriptionBodySchema = z.object({
 const cancelSubscriptionBodySchema = z.object({
   referenceId: z.string().optional(),
   customerType: z.enum(["user", "organization"]).optional(),
+  subscriptionId: z.string().optional(),
+  groupId: z.string().optional(),
   cancelAtCycleEnd: z.boolean().optional(),
 });
 
 const pauseSubscriptionBodySchema = z.object({
   referenceId: z.string().optional(),
   customerType: z.enum(["user", "organization"]).optional(),
+  subscriptionId: z.string().optional(),
+  groupId: z.string().optional(),
   pauseAt: z.literal("now").optional(),
+  resumeAt: z.coerce.date().optional(),
 });
 
 const resumeSubscriptionBodySchema = z.object({
   referenceId: z.string().optional(),
   customerType: z.enum(["user", "organization"]).optional(),
+  subscriptionId: z.string().optional(),
+  groupId: z.string().optional(),
   resumeAt: z.literal("now").optional(),
 });
 
+const sweepBodySchema = z.object({
+  limit: z.number().int().positive().max(500).optional(),
+});
+
+const reportUsageBodySchema = z.object({
+  referenceId: z.string(),
+  metric: z.string().min(1),
+  quantity: z.number().positive(),
+  subscriptionId: z.string().optional(),
+  groupId: z.string().optional(),
+  idempotencyKey: z.string().optional(),
+});
+
 const listSubscriptionsQuerySchema = z.object({
   referenceId: z.string().optional(),
   customerType: z.enum(["user", "organization"]).optional(),
@@ -74,6 +112,8 @@ const listSubscriptionsQuerySchema = z.object({
 const updateSubscriptionBodySchema = z.object({
   referenceId: z.string().optional(),
   customerType: z.enum(["user", "organization"]).optional(),
+  subscriptionId: z.string().optional(),
+  groupId: z.string().optional(),
   planId: z.string().optional(),
   quantity: z.number().optional(),
   remainingCount: z.number().optional(),
@@ -84,6 +124,20 @@ const updateSubscriptionBodySchema = z.object({
 const restoreSubscriptionBodySchema = z.object({
   referenceId: z.string().optional(),
   customerType: z.enum(["user", "organization"]).optional(),
+  subscriptionId: z.string().optional(),
+  groupId: z.string().optional(),
+});
+
+const paymentLinkQuerySchema = z.object({
+  referenceId: z.string().optional(),
+  customerType: z.enum(["user", "organization"]).optional(),
+  subscriptionId: z.string().optional(),
+  groupId: z.string().optional(),
+});
+
+const getEntitlementsQuerySchema = z.object({
+  referenceId: z.string().optional(),
+  customerType: z.enum(["user", "organization"]).optional(),
 });
 
 const getSubscriptionQuerySchema = z.object({
@@ -92,6 +146,12 @@ const getSubscriptionQuerySchema = z.object({
   customerType: z.enum(["user", "organization"]).optional(),
 });
 
+const listInvoicesQuerySchema = z.object({
+  referenceId: z.string().optional(),
+  customerType: z.enum(["user", "organization"]).optional(),
+  subscriptionId: z.string().optional(),
+});
+
 const fetchSubscriptionQuerySchema = z.object({
   subscriptionId: z.string(),
 });
@@ -163,6 +223,24 @@ const fetchCustomerQuerySchema = z.object({
   customerId: z.string(),
 });
 
+const createRefundBodySchema = z.object({
+  paymentId: z.string(),
+  amount: z.number().int().positive().optional(),
+  speed: z.enum(["normal", "optimum"]).optional(),
+  receipt: z.string().optional(),
+  notes: z.record(z.string(), z.string()).optional(),
+});
+
+const listDeadLettersQuerySchema = z.object({
+  status: z.enum(["pending", "replayed"]).optional(),
+  limit: z.coerce.number().int().positive().max(100).optional(),
+  offset: z.coerce.number().int().nonnegative().optional(),
+});
+
+const replayDeadLettersBodySchema = z.object({
+  id: z.string().optional(),
+});
+
 // ─── Subscription Endpoints ──────────────────────────────────────────────────
 
 /**
@@ -267,16 +345,183 @@ export const upgradeSubscription = (options: RazorpayOptions) => {
       const activeSub = existingSubs.find(
         (s) => isActive(s) || s.status === "authenticated",
       );
-      if (activeSub && activeSub.plan === plan.name.toLowerCase()) {
+
+      // Determine which plan ID to use
+      const razorpayPlanId =
+        annual && plan.annualPlanId ? plan.annualPlanId : plan.planId;
+
+      if (activeSub && activeSub.razorpayPlanId === razorpayPlanId) {
         throw createAPIError(
           "BAD_REQUEST",
           RAZORPAY_ERROR_CODES.ALREADY_SUBSCRIBED_PLAN,
         );
       }
 
-      // Determine which plan ID to use
-      const razorpayPlanId =
-        annual && plan.annualPlanId ? plan.annualPlanId : plan.planId;
+      const client = options.razorpayClient;
+
+      // Switch the plan on the existing subscription instead of starting a
+      // second mandate for the same reference
+      if (activeSub?.razorpaySubscriptionId) {
+        const scheduleChangeAt = ctx.body.scheduleAtPeriodEnd
+          ? "cycle_end"
+          : "now";
+
+        let razorpaySub: RazorpaySubscriptionEntity;
+        try {
+          razorpaySub = await (client.subscriptions as any).update(
+            activeSub.razorpaySubscriptionId,
+            {
+              plan_id: razorpayPlanId,
+              // Seat-based plans keep the synced seat count
+              quantity: plan.quantity ? activeSub.quantity || plan.quantity : 1,
+              schedule_change_at: scheduleChangeAt,
+            },
+          );
+        } catch (error: any) {
+          ctx.context.logger.error(
+            `Failed to change Razorpay subscription plan: ${error.message}`,
+          );
+          throw createAPIError(
+            "INTERNAL_SERVER_ERROR",
+            RAZORPAY_ERROR_CODES.SUBSCRIPTION_UPDATE_FAILED,
+          );
+        }
+
+        // A change scheduled for the cycle end reaches the row through the
+        // subscription.updated webhook once Razorpay applies it
+        const updated = await ctx.context.adapter.update<Subscription>({
+          model: "subscription",
+          update: {
+            ...(scheduleChangeAt === "now"
+              ? {
+                  plan: plan.name.toLowerCase(),
+                  razorpayPlanId,
+                  quantity: razorpaySub.quantity,
+                  billingPeriod: annual ? "yearly" : "monthly",
+                  ...(plan.group ? { groupId: plan.group } : {}),
+                }
+              : {}),
+            ...(ctx.body.metadata
+              ? { metadata: JSON.stringify(ctx.body.metadata) }
+              : {}),
+            updatedAt: new Date(),
+          },
+          where: [{ field: "id", value: activeSub.id }],
+        });
+
+        return ctx.json({
+          subscription: updated || activeSub,
+          razorpaySubscription: razorpaySub,
+        });
+      }
+
+      // Parameters for a new Razorpay subscription on `plan`
+      const buildCreateParams = async (
+        subscriptionId: string,
+        startAt: Date | undefined,
+      ) => {
+        const subscriptionCreateParams: Record<string, unknown> = {
+          plan_id: razorpayPlanId,
+          customer_id: razorpayCustomerId,
+          quantity: plan.quantity || 1,
+          total_count: plan.totalCount || 0,
+          notes: subscriptionNotes.set({
+            userId: user.id,
+            subscriptionId,
+            referenceId,
+          }),
+        };
+
+        // Defer the first charge to the end of the free trial
+        if (startAt) {
+          subscriptionCreateParams.start_at = Math.floor(
+            startAt.getTime() / 1000,
+          );
+        }
+
+        // Add line items as Razorpay add-ons
+        if (ctx.body.lineItems && ctx.body.lineItems.length > 0) {
+          subscriptionCreateParams.addons = ctx.body.lineItems.map(
+            (item: { item_id: string; quantity?: number }) => ({
+              item: { id: item.item_id },
+              ...(item.quantity ? { quantity: item.quantity } : {}),
+            }),
+          );
+        }
+
+        // Allow user customization
+        if (subscriptionOptions.getSubscriptionCreateParams) {
+          const extra = await subscriptionOptions.getSubscriptionCreateParams(
+            { user, session: session.session, plan },
+            ctx,
+          );
+          Object.assign(subscriptionCreateParams, extra);
+        }
+        return subscriptionCreateParams;
+      };
+
+      // Convert a running card-less trial by creating its Razorpay
+      // subscription. The first charge waits for the rest of the trial, and
+      // the row stays `trialing` until the customer authorizes the mandate.
+      const trialingSub = existingSubs.find(
+        (s) => s.status === "trialing" && s.trialEnd && s.trialEnd > new Date(),
+      );
+      if (trialingSub) {
+        let razorpaySub: RazorpaySubscriptionEntity;
+        try {
+          // An earlier upgrade already created the mandate: reuse it for the
+          // same plan, or cancel it before starting one on the new plan
+          if (trialingSub.razorpaySubscriptionId) {
+            if (trialingSub.razorpayPlanId === razorpayPlanId) {
+              return ctx.json({
+                subscription: trialingSub,
+                razorpaySubscription: await (client.subscriptions as any).fetch(
+                  trialingSub.razorpaySubscriptionId,
+                ),
+              });
+            }
+            await (client.subscriptions as any).cancel(
+              trialingSub.razorpaySubscriptionId,
+              false,
+            );
+          }
+          razorpaySub = await (client.subscriptions as any).create(
+            await buildCreateParams(trialingSub.id, trialingSub.trialEnd),
+          );
+        } catch (error: any) {
+          ctx.context.logger.error(
+            `Failed to create Razorpay subscription: ${error.message}`,
+          );
+          throw createAPIError(
+            "INTERNAL_SERVER_ERROR",
+            RAZORPAY_ERROR_CODES.SUBSCRIPTION_UPDATE_FAILED,
+          );
+        }
+
+        const updated = await ctx.context.adapter.update<Subscription>({
+          model: "subscription",
+          update: {
+            plan: plan.name.toLowerCase(),
+            razorpayPlanId,
+            razorpaySubscriptionId: razorpaySub.id,
+            shortUrl: razorpaySub.short_url || null,
+            quantity: plan.quantity || 1,
+            totalCount: plan.totalCount || 0,
+            billingPeriod: annual ? "yearly" : "monthly",
+            ...(plan.group ? { groupId: plan.group } : {}),
+            ...(ctx.body.metadata
+              ? { metadata: JSON.stringify(ctx.body.metadata) }
+              : {}),
+            updatedAt: new Date(),
+          },
+          where: [{ field: "id", value: trialingSub.id }],
+        });
+
+        return ctx.json({
+          subscription: updated || trialingSub,
+          razorpaySubscription: razorpaySub,
+        });
+      }
 
       // Create subscription record in DB first
       const now = new Date();
@@ -292,6 +537,10 @@ export const upgradeSubscription = (options: RazorpayOptions) => {
             now.getTime() + plan.freeTrial!.days * 24 * 60 * 60 * 1000,
           )
         : undefined;
+      // Card-less trials live only in the database until the customer
+      // upgrades
+      const cardlessTrial =
+        hasTrialAndEligible && plan.freeTrial?.requirePaymentMethod === false;
 
       const dbSubscription = await ctx.context.adapter.create<Subscription>({
         model: "subscription",
@@ -300,7 +549,7 @@ export const upgradeSubscription = (options: RazorpayOptions) => {
           referenceId,
           razorpayCustomerId,
           razorpayPlanId: razorpayPlanId,
-          status: "created",
+          status: cardlessTrial ? "trialing" : "created",
           quantity: plan.quantity || 1,
           totalCount: plan.totalCount || 0,
           ...(plan.group ? { groupId: plan.group } : {}),
@@ -311,54 +560,30 @@ export const upgradeSubscription = (options: RazorpayOptions) => {
             ? { metadata: JSON.stringify(ctx.body.metadata) }
             : {}),
           billingPeriod: annual ? "yearly" : "monthly",
+          createdAt: now,
         },
       });
 
-      // Create Razorpay subscription
-      const client = options.razorpayClient;
-
-      const subscriptionCreateParams: Record<string, unknown> = {
-        plan_id: razorpayPlanId,
-        customer_id: razorpayCustomerId,
-        quantity: plan.quantity || 1,
-        total_count: plan.totalCount || 0,
-        notes: subscriptionNotes.set({
-          userId: user.id,
-          subscriptionId: dbSubscription.id,
-          referenceId,
-        }),
-      };
-
-      // Add free trial offset (skip if user already had a trial)
-      if (plan.freeTrial?.days && hasTrialAndEligible) {
-        subscriptionCreateParams.start_at = Math.floor(
-          trialEndDate!.getTime() / 1000,
-        );
-      }
-
-      // Add line items as Razorpay add-ons
-      if (ctx.body.lineItems && ctx.body.lineItems.length > 0) {
-        subscriptionCreateParams.addons = ctx.body.lineItems.map(
-          (item: { item_id: string; quantity?: number }) => ({
-            item: { id: item.item_id },
-            ...(item.quantity ? { quantity: item.quantity } : {}),
-          }),
-        );
-      }
-
-      // Schedule plan change at end of billing period (for existing sub upgrades)
-      if (ctx.body.scheduleAtPeriodEnd) {
-        subscriptionCreateParams.schedule_change_at = "cycle_end";
+      if (cardlessTrial) {
+        try {
+          await invokeCallback(
+            "onTrialStart",
+            plan.freeTrial!.onTrialStart,
+            dbSubscription,
+          );
+        } catch (error: any) {
+          ctx.context.logger.error(error.message);
+        }
+        return ctx.json({
+          subscription: dbSubscription,
+          razorpaySubscription: null,
+        });
       }
 
-      // Allow user customization
-      if (subscriptionOptions.getSubscriptionCreateParams) {
-        const extra = await subscriptionOptions.getSubscriptionCreateParams(
-          { user, session: session.session, plan },
-          ctx,
-        );
-        Object.assign(subscriptionCreateParams, extra);
-      }
+      const subscriptionCreateParams = await buildCreateParams(
+        dbSubscription.id,
+        hasTrialAndEligible ? trialEndDate : undefined,
+      );
 
       try {
         const razorpaySub = await (client.subscriptions as any).create(
@@ -398,6 +623,232 @@ export const upgradeSubscription = (options: RazorpayOptions) => {
   );
 };
 
+/**
+ * POST /subscription/preview-change
+ *
+ * Estimate what a call to `/subscription/upgrade` with the same body would
+ * cost, without changing anything.
+ */
+export const previewSubscriptionChange = (options: RazorpayOptions) => {
+  if (!options.subscription?.enabled) {
+    throw new Error(
+      "Subscriptions must be enabled to use previewSubscriptionChange",
+    );
+  }
+  const subscriptionOptions = options.subscription;
+  return createAuthEndpoint(
+    "/subscription/preview-change",
+    {
+      method: "POST",
+      body: upgradeSubscriptionBodySchema,
+      metadata: {
+        openapi: {
+          summary: "Preview plan change",
+          description:
+            "Estimate the prorated amount and renewal charge of a plan change",
+          responses: { 200: { description: "Plan change preview" } },
+        },
+      },
+      use: [
+        razorpaySessionMiddleware,
+        referenceMiddleware(subscriptionOptions, "preview-subscription-change"),
+      ],
+    },
+    async (ctx) => {
+      const { plan: planName, referenceId: bodyReferenceId, annual } = ctx.body;
+      const session = ctx.context.session;
+
+      const plans = await getPlans(options.subscription);
+      const plan = plans?.find(
+        (p) => p.name.toLowerCase() === planName.toLowerCase(),
+      );
+      if (!plan) {
+        throw createAPIError(
+          "BAD_REQUEST",
+          RAZORPAY_ERROR_CODES.SUBSCRIPTION_PLAN_NOT_FOUND,
+        );
+      }
+
+      const customerType = ctx.body.customerType || "user";
+      const referenceId =
+        bodyReferenceId ||
+        (customerType === "organization"
+          ? session.session.activeOrganizationId
+          : session.user.id);
+      if (!referenceId) {
+        throw createAPIError(
+          "BAD_REQUEST",
+          RAZORPAY_ERROR_CODES.ORGANIZATION_REFERENCE_ID_REQUIRED,
+        );
+      }
+
+      const existingSubs = await ctx.context.adapter.findMany<Subscription>({
+        model: "subscription",
+        where: [{ field: "referenceId", value: referenceId }],
+      });
+      const activeSub = existingSubs.find(
+        (s) =>
+          (isActive(s) || s.status === "authenticated") &&
+          (!plan.group || s.groupId === plan.group),
+      );
+
+      const razorpayPlanId =
+        annual && plan.annualPlanId ? plan.annualPlanId : plan.planId;
+      if (activeSub && activeSub.razorpayPlanId === razorpayPlanId) {
+        throw createAPIError(
+          "BAD_REQUEST",
+          RAZORPAY_ERROR_CODES.ALREADY_SUBSCRIBED_PLAN,
+        );
+      }
+
+      const client = options.razorpayClient;
+      const pricingOf = async (
+        name: string,
+        planId: string,
+        quantity: number,
+      ): Promise<PlanChangePricing> => {
+        const razorpayPlan = await (client.plans as any).fetch(planId);
+        return {
+          plan: name,
+          razorpayPlanId: planId,
+          amount: razorpayPlan.item.amount * quantity,
+          currency: razorpayPlan.item.currency,
+          quantity,
+          period: razorpayPlan.period,
+          interval: razorpayPlan.interval,
+        };
+      };
+
+      let currentPlan: PlanChangePricing | null;
+      let targetPlan: PlanChangePricing;
+      try {
+        currentPlan = activeSub?.razorpayPlanId
+          ? await pricingOf(
+              activeSub.plan,
+              activeSub.razorpayPlanId,
+              activeSub.quantity || 1,
+            )
+          : null;
+        targetPlan = await pricingOf(
+          plan.name.toLowerCase(),
+          razorpayPlanId,
+          activeSub && plan.quantity
+            ? activeSub.quantity || plan.quantity
+            : plan.quantity || 1,
+        );
+      } catch (error: any) {
+        ctx.context.logger.error(
+          `Failed to fetch plans for preview: ${error.message}`,
+        );
+        throw createAPIError(
+          "INTERNAL_SERVER_ERROR",
+          RAZORPAY_ERROR_CODES.PLAN_NOT_FOUND,
+        );
+      }
+
+      const now = new Date();
+      let preview: SubscriptionChangePreview;
+
+      if (!currentPlan || !activeSub) {
+        const trialDays = plan.freeTrial?.days;
+        const hadTrial = existingSubs.some(
+          (s) => s.trialStart !== undefined && s.trialStart !== null,
+        );
+        const firstChargeAt =
+          trialDays && !hadTrial
+            ? new Date(now.getTime() + trialDays * 24 * 60 * 60 * 1000)
+            : now;
+        preview = {
+          changeType: "new",
+          currentPlan: null,
+          targetPlan,
+          scheduleChangeAt: "now",
+          effectiveAt: now,
+          proratedAmount: 0,
+          amountDueNow: firstChargeAt > now ? 0 : targetPlan.amount,
+          nextChargeAt: firstChargeAt,
+          nextChargeAmount: targetPlan.amount,
+          currency: targetPlan.currency,
+        };
+      } else {
+        const currentMonthly = toMonthlyAmount(
+          currentPlan.amount,
+          currentPlan.period,
+          currentPlan.interval,
+        );
+        const targetMonthly = toMonthlyAmount(
+          targetPlan.amount,
+          targetPlan.period,
+          targetPlan.interval,
+        );
+        const changeType =
+          targetMonthly > currentMonthly
+            ? "upgrade"
+            : targetMonthly < currentMonthly
+              ? "downgrade"
+              : "lateral";
+        const sameCycle =
+          currentPlan.period === targetPlan.period &&
+          currentPlan.interval === targetPlan.interval;
+        const currentStart = activeSub.currentStart
+          ? new Date(activeSub.currentStart)
+          : null;
+        const currentEnd = activeSub.currentEnd
+          ? new Date(activeSub.currentEnd)
+          : null;
+        // An authenticated subscription has no cycle yet; its first charge
+        // is at the end of the trial
+        const upcomingChargeAt = currentEnd ?? activeSub.trialEnd ?? null;
+
+        if (ctx.body.scheduleAtPeriodEnd) {
+          preview = {
+            changeType,
+            currentPlan,
+            targetPlan,
+            scheduleChangeAt: "cycle_end",
+            effectiveAt: upcomingChargeAt ?? now,
+            proratedAmount: 0,
+            amountDueNow: 0,
+            nextChargeAt: upcomingChargeAt,
+            nextChargeAmount: targetPlan.amount,
+            currency: targetPlan.currency,
+          };
+        } else {
+          const { amount } =
+            currentStart && currentEnd
+              ? estimateProration({
+                  currentAmount: currentPlan.amount,
+                  targetAmount: targetPlan.amount,
+                  currentStart,
+                  currentEnd,
+                  sameCycle,
+                  now,
+                })
+              : { amount: 0 };
+          preview = {
+            changeType,
+            currentPlan,
+            targetPlan,
+            scheduleChangeAt: "now",
+            effectiveAt: now,
+            proratedAmount: amount,
+            amountDueNow: Math.max(amount, 0),
+            // A different billing cycle starts over from now
+            nextChargeAt:
+              currentEnd && !sameCycle
+                ? addBillingCycle(now, targetPlan.period, targetPlan.interval)
+                : upcomingChargeAt,
+            nextChargeAmount: targetPlan.amount,
+            currency: targetPlan.currency,
+          };
+        }
+      }
+
+      return ctx.json(preview);
+    },
+  );
+};
+
 /**
  * POST /subscription/cancel
  *
@@ -442,10 +893,14 @@ export const cancelSubscription = (options: RazorpayOptions) => {
         );
       }
 
-      const subscription = await ctx.context.adapter.findOne<Subscription>({
-        model: "subscription",
-        where: [{ field: "referenceId", value: referenceId }],
-      });
+      const subscription = selectSubscription(
+        await ctx.context.adapter.findMany<Subscription>({
+          model: "subscription",
+          where: [{ field: "referenceId", value: referenceId }],
+          sortBy: { field: "createdAt", direction: "desc" },
+        }),
+        ctx.body,
+      );
 
       if (!subscription?.razorpaySubscriptionId) {
         throw createAPIError(
@@ -502,7 +957,9 @@ export const cancelSubscription = (options: RazorpayOptions) => {
 /**
  * POST /subscription/pause
  *
- * Pause an active subscription (Razorpay-specific).
+ * Pause an active subscription (Razorpay-specific). With `resumeAt`, or a
+ * plan `pause.maxDays` limit, the subscription is resumed by
+ * `/subscription/resume-due` once that date passes.
  */
 export const pauseSubscription = (options: RazorpayOptions) => {
   if (!options.subscription?.enabled) {
@@ -543,10 +1000,14 @@ export const pauseSubscription = (options: RazorpayOptions) => {
         );
       }
 
-      const subscription = await ctx.context.adapter.findOne<Subscription>({
-        model: "subscription",
-        where: [{ field: "referenceId", value: referenceId }],
-      });
+      const subscription = selectSubscription(
+        await ctx.context.adapter.findMany<Subscription>({
+          model: "subscription",
+          where: [{ field: "referenceId", value: referenceId }],
+          sortBy: { field: "createdAt", direction: "desc" },
+        }),
+        ctx.body,
+      );
 
       if (!subscription?.razorpaySubscriptionId) {
         throw createAPIError(
@@ -569,6 +1030,51 @@ export const pauseSubscription = (options: RazorpayOptions) => {
         );
       }
 
+      const plan = subscription.razorpayPlanId
+        ? await getPlanByPlanId(options, subscription.razorpayPlanId)
+        : undefined;
+      const now = new Date();
+      const maxDays = plan?.pause?.maxDays;
+      const resumeAt =
+        ctx.body.resumeAt ??
+        (maxDays
+          ? new Date(now.getTime() + maxDays * 24 * 60 * 60 * 1000)
+          : undefined);
+
+      if (resumeAt && resumeAt <= now) {
+        throw createAPIError(
+          "BAD_REQUEST",
+          RAZORPAY_ERROR_CODES.INVALID_RESUME_DATE,
+        );
+      }
+
+      if (
+        maxDays &&
+        resumeAt &&
+        resumeAt.getTime() - now.getTime() > maxDays * 24 * 60 * 60 * 1000
+      ) {
+        throw createAPIError(
+          "BAD_REQUEST",
+          RAZORPAY_ERROR_CODES.PAUSE_DURATION_EXCEEDED,
+        );
+      }
+
+      // Pauses are counted in a rolling window that opens with the first
+      // pause after the previous window closed
+      const windowOpen =
+        subscription.pauseWindowStart &&
+        now.getTime() - subscription.pauseWindowStart.getTime() <
+          365 * 24 * 60 * 60 * 1000;
+      const pauseCount = windowOpen ? subscription.pauseCount || 0 : 0;
+      const maxPauses = plan?.pause?.maxPausesPerYear;
+
+      if (maxPauses !== undefined && pauseCount >= maxPauses) {
+        throw createAPIError(
+          "BAD_REQUEST",
+          RAZORPAY_ERROR_CODES.PAUSE_LIMIT_REACHED,
+        );
+      }
+
       try {
         const client = options.razorpayClient;
         await (client.subscriptions as any).pause(
@@ -580,7 +1086,10 @@ export const pauseSubscription = (options: RazorpayOptions) => {
           model: "subscription",
           update: {
             status: "paused",
-            pausedAt: new Date(),
+            pausedAt: now,
+            resumeAt: resumeAt ?? null,
+            pauseCount: pauseCount + 1,
+            pauseWindowStart: windowOpen ? subscription.pauseWindowStart : now,
             updatedAt: new Date(),
           },
           where: [{ field: "id", value: subscription.id }],
@@ -644,10 +1153,14 @@ export const resumeSubscription = (options: RazorpayOptions) => {
         );
       }
 
-      const subscription = await ctx.context.adapter.findOne<Subscription>({
-        model: "subscription",
-        where: [{ field: "referenceId", value: referenceId }],
-      });
+      const subscription = selectSubscription(
+        await ctx.context.adapter.findMany<Subscription>({
+          model: "subscription",
+          where: [{ field: "referenceId", value: referenceId }],
+          sortBy: { field: "createdAt", direction: "desc" },
+        }),
+        ctx.body,
+      );
 
       if (!subscription?.razorpaySubscriptionId) {
         throw createAPIError(
@@ -663,6 +1176,15 @@ export const resumeSubscription = (options: RazorpayOptions) => {
         );
       }
 
+      // Dunning pauses only the local row; Razorpay keeps the subscription
+      // waiting for payment
+      if (subscription.dunningEndedAt) {
+        throw createAPIError(
+          "BAD_REQUEST",
+          RAZORPAY_ERROR_CODES.SUBSCRIPTION_PAST_DUE,
+        );
+      }
+
       try {
         const client = options.razorpayClient;
         await (client.subscriptions as any).resume(
@@ -675,6 +1197,7 @@ export const resumeSubscription = (options: RazorpayOptions) => {
           update: {
             status: "active",
             pausedAt: null,
+            resumeAt: null,
             updatedAt: new Date(),
           },
           where: [{ field: "id", value: subscription.id }],
@@ -793,10 +1316,14 @@ export const updateSubscription = (options: RazorpayOptions) => {
         );
       }
 
-      const subscription = await ctx.context.adapter.findOne<Subscription>({
-        model: "subscription",
-        where: [{ field: "referenceId", value: referenceId }],
-      });
+      const subscription = selectSubscription(
+        await ctx.context.adapter.findMany<Subscription>({
+          model: "subscription",
+          where: [{ field: "referenceId", value: referenceId }],
+          sortBy: { field: "createdAt", direction: "desc" },
+        }),
+        ctx.body,
+      );
 
       if (!subscription?.razorpaySubscriptionId) {
         throw createAPIError(
@@ -857,7 +1384,8 @@ export const updateSubscription = (options: RazorpayOptions) => {
 /**
  * POST /subscription/restore
  *
- * Restore a subscription that was scheduled for cancellation at cycle end.
+ * Restore a subscription that was scheduled for cancellation at cycle end by
+ * creating a continuation subscription that starts when it ends.
  */
 export const restoreSubscription = (options: RazorpayOptions) => {
   if (!options.subscription?.enabled) {
@@ -899,10 +1427,14 @@ export const restoreSubscription = (options: RazorpayOptions) => {
         );
       }
 
-      const subscription = await ctx.context.adapter.findOne<Subscription>({
-        model: "subscription",
-        where: [{ field: "referenceId", value: referenceId }],
-      });
+      const subscription = selectSubscription(
+        await ctx.context.adapter.findMany<Subscription>({
+          model: "subscription",
+          where: [{ field: "referenceId", value: referenceId }],
+          sortBy: { field: "createdAt", direction: "desc" },
+        }),
+        ctx.body,
+      );
 
       if (!subscription?.razorpaySubscriptionId) {
         throw createAPIError(
@@ -912,30 +1444,97 @@ export const restoreSubscription = (options: RazorpayOptions) => {
       }
 
       // Must be pending cancellation (cancelAtCycleEnd = true, still active)
-      if (!subscription.cancelAtCycleEnd) {
+      if (!subscription.cancelAtCycleEnd || isTerminal(subscription)) {
         throw createAPIError(
           "BAD_REQUEST",
           RAZORPAY_ERROR_CODES.SUBSCRIPTION_NOT_PENDING_CANCEL,
         );
       }
 
-      try {
-        // Razorpay doesn't have a "restore" API — when cancelAtCycleEnd is used,
-        // the subscription is still active on Razorpay until cycle end.
-        // We clear the local pending cancellation flags.
-        // If you need to re-activate on Razorpay side, you'd create a new subscription.
-        const updated = await ctx.context.adapter.update<Subscription>({
-          model: "subscription",
-          update: {
-            cancelAtCycleEnd: false,
-            cancelledAt: null,
-            updatedAt: new Date(),
-          },
+      if (subscription.nextSubscriptionId) {
+        throw createAPIError(
+          "BAD_REQUEST",
+          RAZORPAY_ERROR_CODES.SUBSCRIPTION_ALREADY_RESTORED,
+        );
+      }
+
+      // Razorpay can't undo a cancellation scheduled for the cycle end, so the
+      // current subscription still ends then. Restoring creates a continuation
+      // subscription on the same plan and customer that starts at that point.
+      const plan = subscription.razorpayPlanId
+        ? await getPlanByPlanId(options, subscription.razorpayPlanId)
+        : undefined;
+      const now = new Date();
+      const startAt =
+        subscription.currentEnd && subscription.currentEnd > now
+          ? subscription.currentEnd
+          : undefined;
+
+      const nextSubscription = await ctx.context.adapter.create<Subscription>({
+        model: "subscription",
+        data: {
+          plan: subscription.plan,
+          referenceId,
+          razorpayCustomerId: subscription.razorpayCustomerId,
+          razorpayPlanId: subscription.razorpayPlanId,
+          status: "created",
+          quantity: subscription.quantity || 1,
+          totalCount: plan?.totalCount || subscription.totalCount || 0,
+          ...(subscription.groupId ? { groupId: subscription.groupId } : {}),
+          ...(subscription.billingPeriod
+            ? { billingPeriod: subscription.billingPeriod }
+            : {}),
+          ...(subscription.metadata ? { metadata: subscription.metadata } : {}),
+          previousSubscriptionId: subscription.id,
+          createdAt: now,
+        },
+      });
+
+      try {
+        const client = options.razorpayClient;
+        const razorpaySub = await (client.subscriptions as any).create({
+          plan_id: subscription.razorpayPlanId,
+          customer_id: subscription.razorpayCustomerId,
+          quantity: nextSubscription.quantity,
+          total_count: nextSubscription.totalCount,
+          ...(startAt
+            ? { start_at: Math.floor(startAt.getTime() / 1000) }
+            : {}),
+          notes: subscriptionNotes.set({
+            userId: user.id,
+            subscriptionId: nextSubscription.id,
+            referenceId,
+          }),
+        });
+
+        const updatedNext = await ctx.context.adapter.update<Subscription>({
+          model: "subscription",
+          update: {
+            razorpaySubscriptionId: razorpaySub.id,
+            shortUrl: razorpaySub.short_url || null,
+            updatedAt: new Date(),
+          },
+          where: [{ field: "id", value: nextSubscription.id }],
+        });
+        const updated = await ctx.context.adapter.update<Subscription>({
+          model: "subscription",
+          update: {
+            nextSubscriptionId: nextSubscription.id,
+            updatedAt: new Date(),
+          },
           where: [{ field: "id", value: subscription.id }],
         });
 
-        return ctx.json({ subscription: updated || subscription });
+        return ctx.json({
+          subscription: updated || subscription,
+          nextSubscription: updatedNext || nextSubscription,
+          razorpaySubscription: razorpaySub,
+        });
       } catch (error: any) {
+        await ctx.context.adapter.delete({
+          model: "subscription",
+          where: [{ field: "id", value: nextSubscription.id }],
+        });
         ctx.context.logger.error(
           `Failed to restore subscription: ${error.message}`,
         );
@@ -993,6 +1592,946 @@ export const getSubscription = (options: RazorpayOptions) => {
   );
 };
 
+/**
+ * POST /subscription/resume-due
+ *
+ * Resume paused subscriptions whose `resumeAt` has passed. Meant to be called
+ * periodically from a scheduled job. Requires `authorizeAdmin`.
+ */
+export const resumeDueSubscriptions = (options: RazorpayOptions) => {
+  return createAuthEndpoint(
+    "/subscription/resume-due",
+    {
+      method: "POST",
+      body: sweepBodySchema.optional(),
+      metadata: {
+        openapi: {
+          summary: "Resume due subscriptions",
+          description: "Resume paused subscriptions whose resumeAt has passed",
+          responses: { 200: { description: "Sweep results" } },
+        },
+      },
+      use: [adminMiddleware(options, "resume-due-subscriptions")],
+    },
+    async (ctx) => {
+      const due = await ctx.context.adapter.findMany<Subscription>({
+        model: "subscription",
+        where: [
+          { field: "status", value: "paused" },
+          { field: "resumeAt", operator: "lte", value: new Date() },
+        ],
+        sortBy: { field: "resumeAt", direction: "asc" },
+        limit: ctx.body?.limit ?? 100,
+      });
+
+      const resumed: Subscription[] = [];
+      const failed: { subscriptionId: string; error: string }[] = [];
+      for (const subscription of due) {
+        try {
+          await (options.razorpayClient.subscriptions as any).resume(
+            subscription.razorpaySubscriptionId,
+            { resume_at: "now" },
+          );
+          const updated = await ctx.context.adapter.update<Subscription>({
+            model: "subscription",
+            update: {
+              status: "active",
+              pausedAt: null,
+              resumeAt: null,
+              updatedAt: new Date(),
+            },
+            where: [{ field: "id", value: subscription.id }],
+          });
+          resumed.push(updated || subscription);
+        } catch (error: any) {
+          ctx.context.logger.error(
+            `Failed to resume subscription ${subscription.id}: ${error.message}`,
+          );
+          failed.push({
+            subscriptionId: subscription.id,
+            error: error.message,
+          });
+        }
+      }
+
+      return ctx.json({ resumed, failed });
+    },
+  );
+};
+
+/**
+ * Statuses of a trial that has not converted to a paid subscription.
+ * @internal
+ */
+const TRIAL_STATUSES = ["trialing", "created", "authenticated"];
+
+/**
+ * POST /subscription/process-trials
+ *
+ * Send trial-ending reminders and expire free trials that ended without the
+ * subscription activating.
+ *
+ * - Trials ending within the plan's `freeTrial.reminderDays` get one
+ *   `freeTrial.onTrialWillEnd` call, recorded in `trialReminderSent`.
+ * - Lapsed trials have their Razorpay subscription cancelled, are marked
+ *   `expired` and get `freeTrial.onTrialExpired`.
+ *
+ * Meant to be called periodically from a scheduled job. Requires
+ * `authorizeAdmin`.
+ */
+export const processTrials = (options: RazorpayOptions) => {
+  return createAuthEndpoint(
+    "/subscription/process-trials",
+    {
+      method: "POST",
+      body: sweepBodySchema.optional(),
+      metadata: {
+        openapi: {
+          summary: "Process trials",
+          description:
+            "Send trial-ending reminders and expire trials that ended without activating",
+          responses: { 200: { description: "Sweep results" } },
+        },
+      },
+      use: [adminMiddleware(options, "process-trials")],
+    },
+    async (ctx) => {
+      const now = new Date();
+      const limit = ctx.body?.limit ?? 100;
+      const plans = await getPlans(options.subscription);
+      const failed: { subscriptionId: string; error: string }[] = [];
+
+      const reminded: Subscription[] = [];
+      const maxReminderDays = Math.max(
+        0,
+        ...plans.map((plan) => plan.freeTrial?.reminderDays ?? 0),
+      );
+      const ending = maxReminderDays
+        ? await ctx.context.adapter.findMany<Subscription>({
+            model: "subscription",
+            where: [
+              { field: "status", operator: "in", value: TRIAL_STATUSES },
+              { field: "trialReminderSent", value: false },
+              { field: "trialEnd", operator: "gt", value: now },
+              {
+                field: "trialEnd",
+                operator: "lte",
+                value: new Date(
+                  now.getTime() + maxReminderDays * 24 * 60 * 60 * 1000,
+                ),
+              },
+            ],
+            sortBy: { field: "trialEnd", direction: "asc" },
+            limit,
+          })
+        : [];
+      for (const subscription of ending) {
+        const plan = plans.find(
+          (p) => p.name.toLowerCase() === subscription.plan.toLowerCase(),
+        );
+        const reminderDays = plan?.freeTrial?.reminderDays;
+        if (
+          !reminderDays ||
+          subscription.trialEnd!.getTime() - now.getTime() >
+            reminderDays * 24 * 60 * 60 * 1000
+        ) {
+          continue;
+        }
+        try {
+          await invokeCallback(
+            "onTrialWillEnd",
+            plan.freeTrial!.onTrialWillEnd,
+            { subscription },
+            ctx,
+          );
+          // Recorded after the callback, so a failed reminder is retried
+          const updated = await ctx.context.adapter.update<Subscription>({
+            model: "subscription",
+            update: {
+              trialReminderSent: true,
+              trialReminderSentAt: new Date(),
+              updatedAt: new Date(),
+            },
+            where: [{ field: "id", value: subscription.id }],
+          });
+          reminded.push(updated || subscription);
+        } catch (error: any) {
+          ctx.context.logger.error(
+            `Failed to send trial reminder for subscription ${subscription.id}: ${error.message}`,
+          );
+          failed.push({
+            subscriptionId: subscription.id,
+            error: error.message,
+          });
+        }
+      }
+
+      // Only trials without an authorized mandate lapse: `created` ones and
+      // card-less ones, converted or not. An `authenticated` subscription is
+      // charged at its start, which may land after trialEnd
+      const lapsed = await ctx.context.adapter.findMany<Subscription>({
+        model: "subscription",
+        where: [
+          { field: "status", operator: "in", value: ["created", "trialing"] },
+          { field: "trialEnd", operator: "lte", value: now },
+        ],
+        sortBy: { field: "trialEnd", direction: "asc" },
+        limit,
+      });
+
+      const expired: Subscription[] = [];
+      for (const subscription of lapsed) {
+        try {
+          if (subscription.razorpaySubscriptionId) {
+            await (options.razorpayClient.subscriptions as any).cancel(
+              subscription.razorpaySubscriptionId,
+              false,
+            );
+          }
+          const updated =
+            (await ctx.context.adapter.update<Subscription>({
+              model: "subscription",
+              update: {
+                status: "expired",
+                endedAt: new Date(),
+                updatedAt: new Date(),
+              },
+              where: [{ field: "id", value: subscription.id }],
+            })) || subscription;
+          expired.push(updated);
+
+          const plan = plans.find(
+            (p) => p.name.toLowerCase() === subscription.plan.toLowerCase(),
+          );
+          await invokeCallback(
+            "onTrialExpired",
+            plan?.freeTrial?.onTrialExpired,
+            updated,
+            ctx,
+          );
+        } catch (error: any) {
+          ctx.context.logger.error(
+            `Failed to expire trial for subscription ${subscription.id}: ${error.message}`,
+          );
+          failed.push({
+            subscriptionId: subscription.id,
+            error: error.message,
+          });
+        }
+      }
+
+      return ctx.json({ reminded, expired, failed });
+    },
+  );
+};
+
+/**
+ * POST /subscription/process-dunning
+ *
+ * Work through subscriptions whose payment failed (`pending` or `halted`),
+ * following `subscription.dunning`:
+ *
+ * - `onPaymentReminder` is called on each day in `reminderDays` (counted
+ *   from `pastDueSince`), with a payment link.
+ * - Once `gracePeriodDays` have passed, `finalAction` is applied and
+ *   `onDunningEnded` is called.
+ *
+ * Meant to be called periodically from a scheduled job. Requires
+ * `authorizeAdmin`.
+ */
+export const processDunning = (options: RazorpayOptions) => {
+  if (!options.subscription?.enabled) {
+    throw new Error("Subscriptions must be enabled");
+  }
+  const dunning = options.subscription.dunning;
+  return createAuthEndpoint(
+    "/subscription/process-dunning",
+    {
+      method: "POST",
+      body: sweepBodySchema.optional(),
+      metadata: {
+        openapi: {
+          summary: "Process dunning",
+          description:
+            "Send payment reminders and end dunning for subscriptions with failed payments",
+          responses: { 200: { description: "Sweep results" } },
+        },
+      },
+      use: [adminMiddleware(options, "process-dunning")],
+    },
+    async (ctx) => {
+      const now = new Date();
+      const pastDue = await ctx.context.adapter.findMany<Subscription>({
+        model: "subscription",
+        where: [
+          { field: "status", operator: "in", value: ["pending", "halted"] },
+          { field: "pastDueSince", operator: "lte", value: now },
+        ],
+        sortBy: { field: "pastDueSince", direction: "asc" },
+        limit: ctx.body?.limit ?? 100,
+      });
+
+      const finalAction = dunning?.finalAction ?? "none";
+      const reminderDays = dunning?.reminderDays ?? [1, 3, 7];
+      const reminded: Subscription[] = [];
+      const ended: Subscription[] = [];
+      const failed: { subscriptionId: string; error: string }[] = [];
+      for (const subscription of pastDue) {
+        // Ended dunning keeps its final status, so this only skips rows
+        // whose status was changed outside the plugin
+        if (subscription.dunningEndedAt) continue;
+        const daysPastDue = Math.floor(
+          (now.getTime() - subscription.pastDueSince!.getTime()) /
+            (24 * 60 * 60 * 1000),
+        );
+        try {
+          if (
+            finalAction !== "none" &&
+            daysPastDue >= (dunning?.gracePeriodDays ?? 0)
+          ) {
+            if (
+              finalAction === "cancel" &&
+              subscription.razorpaySubscriptionId
+            ) {
+              await (options.razorpayClient.subscriptions as any).cancel(
+                subscription.razorpaySubscriptionId,
+                false,
+              );
+            }
+            const updated =
+              (await ctx.context.adapter.update<Subscription>({
+                model: "subscription",
+                update:
+                  finalAction === "cancel"
+                    ? {
+                        status: "cancelled",
+                        cancelledAt: now,
+                        endedAt: now,
+                        dunningEndedAt: now,
+                        updatedAt: now,
+                      }
+                    : {
+                        status: "paused",
+                        pausedAt: now,
+                        dunningEndedAt: now,
+                        updatedAt: now,
+                      },
+                where: [{ field: "id", value: subscription.id }],
+              })) || subscription;
+            ended.push(updated);
+            await invokeCallback(
+              "onDunningEnded",
+              dunning?.onDunningEnded,
+              { subscription: updated, action: finalAction },
+              ctx,
+            );
+            continue;
+          }
+
+          // Send only the latest reminder that is due, so a missed run
+          // doesn't produce several at once
+          const due = reminderDays.filter((day) => day <= daysPastDue).length;
+          if (
+            !dunning?.onPaymentReminder ||
+            due <= (subscription.dunningRemindersSent || 0)
+          ) {
+            continue;
+          }
+          await invokeCallback(
+            "onPaymentReminder",
+            dunning.onPaymentReminder,
+            {
+              subscription,
+              daysPastDue,
+              paymentLink: await getPaymentLink(ctx, options, subscription),
+            },
+            ctx,
+          );
+          const updated = await ctx.context.adapter.update<Subscription>({
+            model: "subscription",
+            update: { dunningRemindersSent: due, updatedAt: new Date() },
+            where: [{ field: "id", value: subscription.id }],
+          });
+          reminded.push(updated || subscription);
+        } catch (error: any) {
+          ctx.context.logger.error(
+            `Failed to process dunning for subscription ${subscription.id}: ${error.message}`,
+          );
+          failed.push({
+            subscriptionId: subscription.id,
+            error: error.message,
+          });
+        }
+      }
+
+      return ctx.json({ reminded, ended, failed });
+    },
+  );
+};
+
+/**
+ * Total quantity of usage records.
+ * @internal
+ */
+function sumQuantity(records: UsageRecord[]) {
+  return records.reduce((sum, record) => sum + record.quantity, 0);
+}
+
+/**
+ * Find the price of a usage metric on a subscription's plan.
+ * @internal
+ */
+function findUsagePricing(
+  plans: RazorpayPlan[],
+  subscription: Subscription,
+  metric: string,
+) {
+  return plans.find(
+    (plan) => plan.name.toLowerCase() === subscription.plan.toLowerCase(),
+  )?.usage?.[metric];
+}
+
+/**
+ * POST /subscription/usage
+ *
+ * Record usage of a metered metric for a reference. The usage is billed to
+ * the newest subscription whose plan prices the metric, unless
+ * `subscriptionId` or `groupId` pick another. Requires `authorizeAdmin`
+ * when called over HTTP.
+ */
+export const reportUsage = (options: RazorpayOptions) => {
+  return createAuthEndpoint(
+    "/subscription/usage",
+    {
+      method: "POST",
+      body: reportUsageBodySchema,
+      metadata: {
+        openapi: {
+          summary: "Report usage",
+          description: "Record usage of a metered metric for a reference",
+          responses: { 200: { description: "Usage record" } },
+        },
+      },
+      use: [adminMiddleware(options, "report-usage")],
+    },
+    async (ctx) => {
+      const { referenceId, metric, quantity, idempotencyKey } = ctx.body;
+      if (idempotencyKey) {
+        const existing = await ctx.context.adapter.findOne<UsageRecord>({
+          model: "usageRecord",
+          where: [{ field: "idempotencyKey", value: idempotencyKey }],
+        });
+        if (existing) return ctx.json(existing);
+      }
+
+      const plans = await getPlans(options.subscription);
+      const subscriptions = await ctx.context.adapter.findMany<Subscription>({
+        model: "subscription",
+        where: [{ field: "referenceId", value: referenceId }],
+        sortBy: { field: "createdAt", direction: "desc" },
+      });
+      const subscription = selectSubscription(
+        subscriptions.filter((s) => findUsagePricing(plans, s, metric)),
+        ctx.body,
+      );
+      if (!subscription) {
+        throw selectSubscription(subscriptions, ctx.body)
+          ? createAPIError(
+              "BAD_REQUEST",
+              RAZORPAY_ERROR_CODES.USAGE_METRIC_NOT_FOUND,
+            )
+          : createAPIError(
+              "NOT_FOUND",
+              RAZORPAY_ERROR_CODES.SUBSCRIPTION_NOT_FOUND,
+            );
+      }
+      if (isTerminal(subscription)) {
+        throw createAPIError(
+          "BAD_REQUEST",
+          RAZORPAY_ERROR_CODES.SUBSCRIPTION_NOT_ACTIVE,
+        );
+      }
+
+      const now = new Date();
+      const usageRecord = await ctx.context.adapter.create<UsageRecord>({
+        model: "usageRecord",
+        data: {
+          referenceId,
+          subscriptionId: subscription.id,
+          metric,
+          quantity,
+          ...(idempotencyKey ? { idempotencyKey } : {}),
+          ...(subscription.currentEnd && subscription.currentEnd > now
+            ? { cycleEnd: subscription.currentEnd }
+            : {}),
+          createdAt: now,
+        },
+      });
+      return ctx.json(usageRecord);
+    },
+  );
+};
+
+/**
+ * POST /subscription/bill-usage
+ *
+ * Bill the usage of active subscriptions whose billing cycle ends within
+ * `usageBilling.leadHours`. Usage above each metric's free allowance is
+ * added to the Razorpay subscription as an add-on, which Razorpay charges
+ * with the next invoice. Each cycle is billed once.
+ *
+ * Meant to be called periodically from a scheduled job. Requires
+ * `authorizeAdmin`.
+ */
+export const billUsage = (options: RazorpayOptions) => {
+  if (!options.subscription?.enabled) {
+    throw new Error("Subscriptions must be enabled");
+  }
+  const usageBilling = options.subscription.usageBilling;
+  return createAuthEndpoint(
+    "/subscription/bill-usage",
+    {
+      method: "POST",
+      body: sweepBodySchema.optional(),
+      metadata: {
+        openapi: {
+          summary: "Bill usage",
+          description:
+            "Bill metered usage as add-ons on subscriptions whose cycle is ending",
+          responses: { 200: { description: "Sweep results" } },
+        },
+      },
+      use: [adminMiddleware(options, "bill-usage")],
+    },
+    async (ctx) => {
+      const now = new Date();
+      const cutoff = new Date(
+        now.getTime() + (usageBilling?.leadHours ?? 24) * 60 * 60 * 1000,
+      );
+      const limit = ctx.body?.limit ?? 100;
+      // A billed subscription keeps matching until its renewal moves
+      // currentEnd, so page past those instead of letting them fill `limit`
+      const ending: Subscription[] = [];
+      for (let offset = 0; ending.length < limit; offset += limit) {
+        const page = await ctx.context.adapter.findMany<Subscription>({
+          model: "subscription",
+          where: [
+            { field: "status", value: "active" },
+            { field: "currentEnd", operator: "lte", value: cutoff },
+          ],
+          sortBy: { field: "currentEnd", direction: "asc" },
+          limit,
+          offset,
+        });
+        ending.push(
+          ...page.filter(
+            (subscription) =>
+              subscription.razorpaySubscriptionId &&
+              !(
+                subscription.usageBilledThrough &&
+                subscription.usageBilledThrough >= subscription.currentEnd!
+              ),
+          ),
+        );
+        if (page.length < limit) break;
+      }
+
+      const plans = await getPlans(options.subscription);
+      const billed: Subscription[] = [];
+      const addons: RazorpayAddonEntity[] = [];
+      const failed: { subscriptionId: string; error: string }[] = [];
+      for (const subscription of ending.slice(0, limit)) {
+        const currentEnd = subscription.currentEnd!;
+        try {
+          const records = await ctx.context.adapter.findMany<UsageRecord>({
+            model: "usageRecord",
+            where: [
+              { field: "subscriptionId", value: subscription.id },
+              { field: "billed", value: false },
+              { field: "createdAt", operator: "lt", value: currentEnd },
+            ],
+          });
+
+          // Free units apply per cycle the usage was reported in, so usage
+          // reported after its cycle was billed doesn't use up this one's
+          const groups = new Map<
+            string,
+            { metric: string; cycleEnd: Date; records: UsageRecord[] }
+          >();
+          for (const record of records) {
+            const cycleEnd = record.cycleEnd ?? currentEnd;
+            const key = `${record.metric}:${cycleEnd.getTime()}`;
+            const group = groups.get(key) ?? {
+              metric: record.metric,
+              cycleEnd,
+              records: [],
+            };
+            group.records.push(record);
+            groups.set(key, group);
+          }
+
+          const subscriptionAddons: RazorpayAddonEntity[] = [];
+          for (const {
+            metric,
+            cycleEnd,
+            records: metricRecords,
+          } of groups.values()) {
+            const pricing = findUsagePricing(plans, subscription, metric);
+            const freeUnits = pricing?.freeUnits ?? 0;
+            const total = sumQuantity(metricRecords);
+            // Usage of the cycle billed by an earlier run has already used
+            // up some of the free units
+            const billedBefore = freeUnits
+              ? sumQuantity(
+                  await ctx.context.adapter.findMany<UsageRecord>({
+                    model: "usageRecord",
+                    where: [
+                      { field: "subscriptionId", value: subscription.id },
+                      { field: "metric", value: metric },
+                      { field: "cycleEnd", operator: "gte", value: cycleEnd },
+                      { field: "cycleEnd", operator: "lte", value: cycleEnd },
+                      { field: "billed", value: true },
+                    ],
+                  }),
+                )
+              : 0;
+            const billable =
+              Math.max(billedBefore + total - freeUnits, 0) -
+              Math.max(billedBefore - freeUnits, 0);
+            const amount = Math.round(billable * (pricing?.unitAmount ?? 0));
+
+            let addon: RazorpayAddonEntity | undefined;
+            if (amount > 0) {
+              addon = await (
+                options.razorpayClient.subscriptions as any
+              ).createAddon(subscription.razorpaySubscriptionId, {
+                item: {
+                  name: pricing!.name ?? metric,
+                  amount,
+                  currency: pricing!.currency ?? "INR",
+                  description: `${billable} ${metric} above ${freeUnits} included`,
+                },
+                quantity: 1,
+              });
+              subscriptionAddons.push(addon!);
+            }
+            // Mark each metric as soon as it is billed, so a failure on a
+            // later metric doesn't bill this one twice on retry
+            await ctx.context.adapter.updateMany({
+              model: "usageRecord",
+              where: [
+                {
+                  field: "id",
+                  operator: "in",
+                  value: metricRecords.map((record) => record.id),
+                },
+              ],
+              update: {
+                billed: true,
+                billedAt: now,
+                ...(addon ? { razorpayAddonId: addon.id } : {}),
+              },
+            });
+          }
+
+          const updated =
+            (await ctx.context.adapter.update<Subscription>({
+              model: "subscription",
+              update: { usageBilledThrough: currentEnd, updatedAt: now },
+              where: [{ field: "id", value: subscription.id }],
+            })) || subscription;
+          if (records.length === 0) continue;
+
+          billed.push(updated);
+          addons.push(...subscriptionAddons);
+          await invokeCallback(
+            "onUsageBilled",
+            usageBilling?.onUsageBilled,
+            { subscription: updated, addons: subscriptionAddons, records },
+            ctx,
+          );
+        } catch (error: any) {
+          ctx.context.logger.error(
+            `Failed to bill usage for subscription ${subscription.id}: ${error.message}`,
+          );
+          failed.push({
+            subscriptionId: subscription.id,
+            error: error.message,
+          });
+        }
+      }
+
+      return ctx.json({ billed, addons, failed });
+    },
+  );
+};
+
+/**
+ * Link to Razorpay's hosted page for a subscription, where the customer can
+ * complete a failed payment or authorize a new card or UPI mandate. Falls
+ * back to the stored `shortUrl` when Razorpay can't be reached.
+ * @internal
+ */
+async function getPaymentLink(
+  ctx: GenericEndpointContext,
+  options: RazorpayOptions,
+  subscription: Subscription,
+): Promise<string | null> {
+  if (!subscription.razorpaySubscriptionId) return null;
+  try {
+    const razorpaySub: RazorpaySubscriptionEntity = await (
+      options.razorpayClient.subscriptions as any
+    ).fetch(subscription.razorpaySubscriptionId);
+    return razorpaySub.short_url || subscription.shortUrl || null;
+  } catch (error: any) {
+    ctx.context.logger.error(
+      `Failed to fetch Razorpay subscription ${subscription.razorpaySubscriptionId}: ${error.message}`,
+    );
+    return subscription.shortUrl || null;
+  }
+}
+
+/**
+ * GET /subscription/payment-link
+ *
+ * Get a link where the customer can fix the payment method of a
+ * subscription, e.g. after a failed payment.
+ */
+export const getSubscriptionPaymentLink = (options: RazorpayOptions) => {
+  if (!options.subscription?.enabled) {
+    throw new Error("Subscriptions must be enabled");
+  }
+  const subscriptionOptions = options.subscription;
+  return createAuthEndpoint(
+    "/subscription/payment-link",
+    {
+      method: "GET",
+      query: paymentLinkQuerySchema,
+      metadata: {
+        openapi: {
+          summary: "Get payment link",
+          description:
+            "Get a link where the customer can fix the subscription's payment method",
+          responses: { 200: { description: "Payment link" } },
+        },
+      },
+      use: [
+        razorpaySessionMiddleware,
+        referenceMiddleware(subscriptionOptions, "get-payment-link"),
+      ],
+    },
+    async (ctx) => {
+      const session = ctx.context.session;
+      const user = session.user as typeof session.user & WithRazorpayCustomerId;
+      const customerType = ctx.query?.customerType || "user";
+      const referenceId =
+        ctx.query?.referenceId ||
+        (customerType === "organization"
+          ? session.session.activeOrganizationId
+          : user.id);
+
+      if (!referenceId) {
+        throw createAPIError(
+          "BAD_REQUEST",
+          RAZORPAY_ERROR_CODES.ORGANIZATION_REFERENCE_ID_REQUIRED,
+        );
+      }
+
+      const subscription = selectSubscription(
+        await ctx.context.adapter.findMany<Subscription>({
+          model: "subscription",
+          where: [{ field: "referenceId", value: referenceId }],
+          sortBy: { field: "createdAt", direction: "desc" },
+        }),
+        ctx.query ?? {},
+      );
+
+      if (!subscription?.razorpaySubscriptionId) {
+        throw createAPIError(
+          "NOT_FOUND",
+          RAZORPAY_ERROR_CODES.SUBSCRIPTION_NOT_FOUND,
+        );
+      }
+
+      const url = isTerminal(subscription)
+        ? null
+        : await getPaymentLink(ctx, options, subscription);
+      if (!url) {
+        throw createAPIError(
+          "BAD_REQUEST",
+          RAZORPAY_ERROR_CODES.PAYMENT_LINK_NOT_AVAILABLE,
+        );
+      }
+
+      return ctx.json({ url, subscription });
+    },
+  );
+};
+
+/**
+ * Load a reference's subscriptions and resolve its entitlements.
+ * @internal
+ */
+async function loadEntitlements(
+  ctx: GenericEndpointContext,
+  options: RazorpayOptions,
+  referenceId: string,
+) {
+  const subscriptions = await ctx.context.adapter.findMany<Subscription>({
+    model: "subscription",
+    where: [{ field: "referenceId", value: referenceId }],
+    sortBy: { field: "createdAt", direction: "desc" },
+  });
+  return resolveEntitlements(
+    referenceId,
+    subscriptions,
+    await getPlans(options.subscription),
+    options.subscription?.enabled
+      ? options.subscription.dunning?.gracePeriodDays
+      : undefined,
+  );
+}
+
+/**
+ * GET /subscription/entitlements
+ *
+ * Get what the current user or reference is entitled to: the merged
+ * `limits` of the plans of its usable subscriptions.
+ */
+export const getSubscriptionEntitlements = (options: RazorpayOptions) => {
+  if (!options.subscription?.enabled) {
+    throw new Error("Subscriptions must be enabled");
+  }
+  const subscriptionOptions = options.subscription;
+  return createAuthEndpoint(
+    "/subscription/entitlements",
+    {
+      method: "GET",
+      query: getEntitlementsQuerySchema,
+      metadata: {
+        openapi: {
+          summary: "Get entitlements",
+          description:
+            "Get the merged plan limits of the reference's usable subscriptions",
+          responses: { 200: { description: "Entitlements" } },
+        },
+      },
+      use: [
+        razorpaySessionMiddleware,
+        referenceMiddleware(subscriptionOptions, "get-entitlements"),
+      ],
+    },
+    async (ctx) => {
+      const session = ctx.context.session;
+      const customerType = ctx.query?.customerType || "user";
+      const referenceId =
+        ctx.query?.referenceId ||
+        (customerType === "organization"
+          ? session.session.activeOrganizationId
+          : session.user.id);
+
+      if (!referenceId) {
+        throw createAPIError(
+          "BAD_REQUEST",
+          RAZORPAY_ERROR_CODES.ORGANIZATION_REFERENCE_ID_REQUIRED,
+        );
+      }
+
+      return ctx.json(await loadEntitlements(ctx, options, referenceId));
+    },
+  );
+};
+
+/**
+ * Server-only: get the entitlements of any reference, e.g. to check a
+ * feature in a background job.
+ *
+ * @example
+ * ```ts
+ * const entitlements = await auth.api.getEntitlements({
+ *   body: { referenceId: "org_123" },
+ * });
+ * if (hasFeature(entitlements, "sso")) { ... }
+ * ```
+ */
+export const getEntitlements = (options: RazorpayOptions) => {
+  return createAuthEndpoint(
+    "/subscription/entitlements/resolve",
+    {
+      method: "POST",
+      body: z.object({ referenceId: z.string() }),
+      metadata: { SERVER_ONLY: true },
+    },
+    async (ctx) => {
+      return ctx.json(
+        await loadEntitlements(ctx, options, ctx.body.referenceId),
+      );
+    },
+  );
+};
+
+/**
+ * GET /subscription/invoices
+ *
+ * List invoices recorded from webhooks for the current user or reference,
+ * newest first. Served from the local database without calling Razorpay.
+ */
+export const listInvoices = (options: RazorpayOptions) => {
+  if (!options.subscription?.enabled) {
+    throw new Error("Subscriptions must be enabled");
+  }
+  const subscriptionOptions = options.subscription;
+  return createAuthEndpoint(
+    "/subscription/invoices",
+    {
+      method: "GET",
+      query: listInvoicesQuerySchema,
+      metadata: {
+        openapi: {
+          summary: "List invoices",
+          description:
+            "List invoices stored from Razorpay webhooks for the current user or reference",
+          responses: { 200: { description: "Invoice list" } },
+        },
+      },
+      use: [
+        razorpaySessionMiddleware,
+        referenceMiddleware(subscriptionOptions, "list-invoice"),
+      ],
+    },
+    async (ctx) => {
+      const session = ctx.context.session;
+      const user = session.user as typeof session.user & WithRazorpayCustomerId;
+      const customerType = ctx.query?.customerType || "user";
+      const referenceId =
+        ctx.query?.referenceId ||
+        (customerType === "organization"
+          ? session.session.activeOrganizationId
+          : user.id);
+
+      if (!referenceId) {
+        throw createAPIError(
+          "BAD_REQUEST",
+          RAZORPAY_ERROR_CODES.ORGANIZATION_REFERENCE_ID_REQUIRED,
+        );
+      }
+
+      const invoices = await ctx.context.adapter.findMany<Invoice>({
+        model: "invoice",
+        where: [
+          { field: "referenceId", value: referenceId },
+          ...(ctx.query?.subscriptionId
+            ? [{ field: "subscriptionId", value: ctx.query.subscriptionId }]
+            : []),
+        ],
+        sortBy: { field: "createdAt", direction: "desc" },
+      });
+
+      return ctx.json(invoices);
+    },
+  );
+};
+
 // ─── Razorpay-Specific Endpoints ─────────────────────────────────────────────
 
 /**
@@ -1561,6 +3100,149 @@ export const fetchCustomer = (options: RazorpayOptions) => {
   );
 };
 
+// ─── Refund Endpoints ────────────────────────────────────────────────────────
+
+/**
+ * POST /razorpay/refund/create
+ *
+ * Issue a full or partial refund for a payment. Requires `authorizeAdmin`.
+ */
+export const createRefund = (options: RazorpayOptions) => {
+  return createAuthEndpoint(
+    "/razorpay/refund/create",
+    {
+      method: "POST",
+      body: createRefundBodySchema,
+      metadata: {
+        openapi: {
+          summary: "Create refund",
+          description: "Issue a full or partial refund for a Razorpay payment",
+          responses: { 200: { description: "Refund created" } },
+        },
+      },
+      use: [adminMiddleware(options, "create-refund")],
+    },
+    async (ctx) => {
+      let razorpayRefund: RazorpayRefundEntity;
+      try {
+        const client = options.razorpayClient;
+        razorpayRefund = await (client.payments as any).refund(
+          ctx.body.paymentId,
+          {
+            ...(ctx.body.amount ? { amount: ctx.body.amount } : {}),
+            speed: ctx.body.speed ?? "normal",
+            receipt: ctx.body.receipt,
+            notes: ctx.body.notes || {},
+          },
+        );
+      } catch (error: any) {
+        ctx.context.logger.error(`Failed to create refund: ${error.message}`);
+        throw createAPIError(
+          "INTERNAL_SERVER_ERROR",
+          RAZORPAY_ERROR_CODES.REFUND_CREATE_FAILED,
+        );
+      }
+
+      const refund = await upsertRefund(ctx, razorpayRefund);
+      return ctx.json(refund);
+    },
+  );
+};
+
+// ─── Webhook Dead Letters ────────────────────────────────────────────────────
+
+/**
+ * GET /razorpay/webhook/dead-letters
+ *
+ * List webhook events whose processing failed. Requires `authorizeAdmin`.
+ */
+export const listWebhookDeadLetters = (options: RazorpayOptions) => {
+  return createAuthEndpoint(
+    "/razorpay/webhook/dead-letters",
+    {
+      method: "GET",
+      query: listDeadLettersQuerySchema,
+      metadata: {
+        openapi: {
+          summary: "List webhook dead letters",
+          description: "List webhook events whose processing failed",
+          responses: { 200: { description: "Dead letters list" } },
+        },
+      },
+      use: [adminMiddleware(options, "list-webhook-dead-letters")],
+    },
+    async (ctx) => {
+      const deadLetters = await ctx.context.adapter.findMany<WebhookDeadLetter>(
+        {
+          model: "razorpayWebhookDeadLetter",
+          where: [{ field: "status", value: ctx.query?.status ?? "pending" }],
+          sortBy: { field: "createdAt", direction: "desc" },
+          limit: ctx.query?.limit ?? 50,
+          offset: ctx.query?.offset,
+        },
+      );
+      return ctx.json(deadLetters);
+    },
+  );
+};
+
+/**
+ * POST /razorpay/webhook/replay
+ *
+ * Replay one dead-lettered webhook event, or all pending ones, through the
+ * webhook handlers. Stored events are not signature-verified again.
+ * Requires `authorizeAdmin`.
+ */
+export const replayWebhookDeadLetters = (options: RazorpayOptions) => {
+  return createAuthEndpoint(
+    "/razorpay/webhook/replay",
+    {
+      method: "POST",
+      body: replayDeadLettersBodySchema,
+      metadata: {
+        openapi: {
+          summary: "Replay webhook dead letters",
+          description: "Replay one or all pending dead-lettered webhook events",
+          responses: { 200: { description: "Replay results" } },
+        },
+      },
+      use: [adminMiddleware(options, "replay-webhook-dead-letter")],
+    },
+    async (ctx) => {
+      let deadLetters: WebhookDeadLetter[];
+      if (ctx.body?.id) {
+        const deadLetter = await ctx.context.adapter.findOne<WebhookDeadLetter>(
+          {
+            model: "razorpayWebhookDeadLetter",
+            where: [{ field: "id", value: ctx.body.id }],
+          },
+        );
+        if (!deadLetter) {
+          throw createAPIError(
+            "NOT_FOUND",
+            RAZORPAY_ERROR_CODES.WEBHOOK_DEAD_LETTER_NOT_FOUND,
+          );
+        }
+        deadLetters = [deadLetter];
+      } else {
+        deadLetters = await ctx.context.adapter.findMany<WebhookDeadLetter>({
+          model: "razorpayWebhookDeadLetter",
+          where: [{ field: "status", value: "pending" }],
+          sortBy: { field: "createdAt", direction: "asc" },
+          limit: 100,
+        });
+      }
+
+      // Replay in order of arrival so handlers see events in sequence
+      const results: WebhookDeadLetter[] = [];
+      for (const deadLetter of deadLetters) {
+        results.push(await replayDeadLetter(ctx, options, deadLetter));
+      }
+      return ctx.json({ deadLetters: results });
+    },
+  );
+};
+
 // ─── Webhook ─────────────────────────────────────────────────────────────────
 
 /**
@@ -1574,6 +3256,9 @@ export const razorpayWebhook = (options: RazorpayOptions) => {
     "/razorpay/webhook",
     {
       method: "POST",
+      // Leave the body stream unread; the signature covers the raw bytes
+      disableBody: true,
+      cloneRequest: true,
       metadata: {
         isAction: false,
         openapi: {
@@ -1587,8 +3272,11 @@ export const razorpayWebhook = (options: RazorpayOptions) => {
       },
     },
     async (ctx) => {
-      const webhookSecret = options.razorpayWebhookSecret;
-      if (!webhookSecret) {
+      const secrets = await resolveWebhookSecrets(
+        ctx,
+        options.razorpayWebhookSecret,
+      );
+      if (!secrets.length) {
         throw createAPIError(
           "INTERNAL_SERVER_ERROR",
           RAZORPAY_ERROR_CODES.WEBHOOK_SECRET_NOT_FOUND,
@@ -1603,83 +3291,115 @@ export const razorpayWebhook = (options: RazorpayOptions) => {
           RAZORPAY_ERROR_CODES.WEBHOOK_SIGNATURE_NOT_FOUND,
         );
       }
+      if (!isWellFormedSignature(signature)) {
+        throw createAPIError(
+          "BAD_REQUEST",
+          RAZORPAY_ERROR_CODES.WEBHOOK_SIGNATURE_MALFORMED,
+        );
+      }
 
-      // Get raw body
-      let rawBody: string;
-      try {
-        rawBody = await ctx.request!.text();
-      } catch {
-        // If body was already consumed, try to get it from ctx.body
-        rawBody = JSON.stringify(ctx.body);
+      // The signature covers the raw bytes, so a re-serialized body won't do
+      const rawBody = await readWebhookRawBody(ctx, options);
+      if (rawBody === null) {
+        ctx.context.logger.error(
+          "Razorpay webhook: raw body unavailable. If your framework parses JSON before Better Auth, provide webhook.getRawBody",
+        );
+        throw createAPIError(
+          "BAD_REQUEST",
+          RAZORPAY_ERROR_CODES.WEBHOOK_BODY_NOT_FOUND,
+        );
       }
 
       // Verify HMAC-SHA256 signature
-      const expectedSignature = crypto
-        .createHmac("sha256", webhookSecret)
-        .update(rawBody)
-        .digest("hex");
-
-      const isValid = crypto.timingSafeEqual(
-        Buffer.from(signature),
-        Buffer.from(expectedSignature),
-      );
-
-      if (!isValid) {
+      const secretIndex = verifyWebhookSignature(rawBody, signature, secrets);
+      if (secretIndex === -1) {
         throw createAPIError(
           "BAD_REQUEST",
           RAZORPAY_ERROR_CODES.FAILED_TO_VERIFY_WEBHOOK,
         );
       }
+      if (secrets.length > 1) {
+        ctx.context.logger.info(
+          `Razorpay webhook: signature verified with secret at index ${secretIndex}`,
+        );
+      }
 
-      let event: RazorpayWebhookEvent;
+      let event: RazorpayWebhookEvent | undefined;
       try {
         event = JSON.parse(rawBody) as RazorpayWebhookEvent;
       } catch {
-        throw createAPIError("BAD_REQUEST", RAZORPAY_ERROR_CODES.WEBHOOK_ERROR);
-      }
-
-      // Call optional generic event handler
-      await options.onEvent?.(event);
-
-      // Route to specific handler
-      switch (event.event) {
-        case "subscription.authenticated":
-          await onSubscriptionAuthenticated(ctx, options, event);
-          break;
-        case "subscription.activated":
-          await onSubscriptionActivated(ctx, options, event);
-          break;
-        case "subscription.charged":
-          await onSubscriptionCharged(ctx, options, event);
-          break;
-        case "subscription.pending":
-          await onSubscriptionPending(ctx, options, event);
-          break;
-        case "subscription.halted":
-          await onSubscriptionHalted(ctx, options, event);
-          break;
-        case "subscription.completed":
-          await onSubscriptionCompleted(ctx, options, event);
-          break;
-        case "subscription.updated":
-          await onSubscriptionUpdated(ctx, options, event);
-          break;
-        case "subscription.paused":
-          await onSubscriptionPaused(ctx, options, event);
-          break;
-        case "subscription.resumed":
-          await onSubscriptionResumed(ctx, options, event);
-          break;
-        case "subscription.cancelled":
-          await onSubscriptionCancelled(ctx, options, event);
-          break;
-        default:
-          ctx.context.logger.info(
-            `Razorpay webhook: Unhandled event type: ${event.event}`,
+        event = undefined;
+      }
+      if (
+        typeof event?.event !== "string" ||
+        typeof event.created_at !== "number"
+      ) {
+        throw createAPIError(
+          "BAD_REQUEST",
+          RAZORPAY_ERROR_CODES.WEBHOOK_INVALID_PAYLOAD,
+        );
+      }
+
+      if (
+        !isWithinTolerance(event.created_at, options.webhook?.toleranceSeconds)
+      ) {
+        ctx.context.logger.warn(
+          `Razorpay webhook: rejected ${event.event} created at ${event.created_at}, outside the tolerance window`,
+        );
+        throw createAPIError(
+          "BAD_REQUEST",
+          RAZORPAY_ERROR_CODES.WEBHOOK_EVENT_EXPIRED,
+        );
+      }
+
+      const { allowedAccountIds, onForeignAccountEvent } =
+        options.webhook ?? {};
+      if (allowedAccountIds && !allowedAccountIds.includes(event.account_id)) {
+        if (!onForeignAccountEvent) {
+          ctx.context.logger.warn(
+            `Razorpay webhook: rejected ${event.event} from account ${event.account_id}`,
+          );
+          throw createAPIError(
+            "FORBIDDEN",
+            RAZORPAY_ERROR_CODES.WEBHOOK_ACCOUNT_NOT_ALLOWED,
+          );
+        }
+        try {
+          await invokeCallback(
+            "webhook.onForeignAccountEvent",
+            onForeignAccountEvent,
+            { event },
+            ctx,
           );
+        } catch (error: any) {
+          ctx.context.logger.error(
+            `Razorpay webhook (${event.event}) failed: ${error.message}`,
+          );
+          throw createAPIError(
+            "INTERNAL_SERVER_ERROR",
+            RAZORPAY_ERROR_CODES.WEBHOOK_CALLBACK_FAILED,
+          );
+        }
+        return ctx.json({ received: true });
       }
 
-      return ctx.json({ received: true });
+      const eventId =
+        ctx.request?.headers?.get("x-razorpay-event-id") ?? undefined;
+
+      // Keep Razorpay's headers with the payload in case it is dead-lettered
+      const headers: Record<string, string> = {};
+      ctx.request?.headers?.forEach((value, key) => {
+        if (key.startsWith("x-razorpay-") || key === "content-type") {
+          headers[key] = value;
+        }
+      });
+
+      return ctx.json(
+        await processWebhookEvent(ctx, options, event, eventId, {
+          rawBody,
+          headers,
+        }),
+      );
     },
   );
 };
@@ -67,6 +67,19 @@ export const subscriptions = {
         type: "date",
         required: false,
       },
+      resumeAt: {
+        type: "date",
+        required: false,
+      },
+      pauseCount: {
+        type: "number",
+        required: false,
+        defaultValue: 0,
+      },
+      pauseWindowStart: {
+        type: "date",
+        required: false,
+      },
       shortUrl: {
         type: "string",
         required: false,
@@ -76,6 +89,10 @@ export const subscriptions = {
         required: false,
         defaultValue: false,
       },
+      groupId: {
+        type: "string",
+        required: false,
+      },
       billingPeriod: {
         type: "string",
         required: false,
@@ -88,6 +105,15 @@ export const subscriptions = {
         type: "date",
         required: false,
       },
+      trialReminderSent: {
+        type: "boolean",
+        required: false,
+        defaultValue: false,
+      },
+      trialReminderSentAt: {
+        type: "date",
+        required: false,
+      },
       metadata: {
         type: "string",
         required: false,
@@ -96,6 +122,494 @@ export const subscriptions = {
         type: "date",
         required: false,
       },
+      lastEventAt: {
+        type: "date",
+        required: false,
+      },
+      pastDueSince: {
+        type: "date",
+        required: false,
+      },
+      dunningRemindersSent: {
+        type: "number",
+        required: false,
+        defaultValue: 0,
+      },
+      dunningEndedAt: {
+        type: "date",
+        required: false,
+      },
+      usageBilledThrough: {
+        type: "date",
+        required: false,
+      },
+      previousSubscriptionId: {
+        type: "string",
+        required: false,
+      },
+      nextSubscriptionId: {
+        type: "string",
+        required: false,
+      },
+      createdAt: {
+        type: "date",
+        required: true,
+        defaultValue: () => new Date(),
+      },
+      updatedAt: {
+        type: "date",
+        required: false,
+      },
+    },
+  },
+} satisfies BetterAuthPluginDBSchema;
+
+export const usageRecords = {
+  usageRecord: {
+    fields: {
+      referenceId: {
+        type: "string",
+        required: true,
+      },
+      subscriptionId: {
+        type: "string",
+        required: true,
+      },
+      metric: {
+        type: "string",
+        required: true,
+      },
+      quantity: {
+        type: "number",
+        required: true,
+      },
+      idempotencyKey: {
+        type: "string",
+        required: false,
+        unique: true,
+      },
+      cycleEnd: {
+        type: "date",
+        required: false,
+      },
+      billed: {
+        type: "boolean",
+        required: false,
+        defaultValue: false,
+      },
+      billedAt: {
+        type: "date",
+        required: false,
+      },
+      razorpayAddonId: {
+        type: "string",
+        required: false,
+      },
+      createdAt: {
+        type: "date",
+        required: true,
+      },
+    },
+  },
+} satisfies BetterAuthPluginDBSchema;
+
+export const webhookEvents = {
+  razorpayWebhookEvent: {
+    fields: {
+      eventId: {
+        type: "string",
+        required: true,
+        unique: true,
+      },
+      event: {
+        type: "string",
+        required: true,
+      },
+      accountId: {
+        type: "string",
+        required: false,
+      },
+      status: {
+        type: "string",
+        required: true,
+      },
+      error: {
+        type: "string",
+        required: false,
+      },
+      receivedAt: {
+        type: "date",
+        required: true,
+      },
+      attemptedAt: {
+        type: "date",
+        required: false,
+      },
+      processedAt: {
+        type: "date",
+        required: false,
+      },
+    },
+  },
+} satisfies BetterAuthPluginDBSchema;
+
+export const webhookDeadLetters = {
+  razorpayWebhookDeadLetter: {
+    fields: {
+      eventId: {
+        type: "string",
+        required: false,
+      },
+      event: {
+        type: "string",
+        required: true,
+      },
+      payload: {
+        type: "string",
+        required: true,
+      },
+      headers: {
+        type: "string",
+        required: false,
+      },
+      error: {
+        type: "string",
+        required: true,
+      },
+      attempts: {
+        type: "number",
+        required: true,
+        defaultValue: 1,
+      },
+      status: {
+        type: "string",
+        required: true,
+      },
+      lastAttemptAt: {
+        type: "date",
+        required: true,
+      },
+      replayedAt: {
+        type: "date",
+        required: false,
+      },
+      createdAt: {
+        type: "date",
+        required: true,
+      },
+    },
+  },
+} satisfies BetterAuthPluginDBSchema;
+
+export const payments = {
+  payment: {
+    fields: {
+      razorpayPaymentId: {
+        type: "string",
+        required: true,
+        unique: true,
+      },
+      razorpayOrderId: {
+        type: "string",
+        required: false,
+      },
+      razorpayInvoiceId: {
+        type: "string",
+        required: false,
+      },
+      razorpaySubscriptionId: {
+        type: "string",
+        required: false,
+      },
+      razorpayCustomerId: {
+        type: "string",
+        required: false,
+      },
+      subscriptionId: {
+        type: "string",
+        required: false,
+      },
+      referenceId: {
+        type: "string",
+        required: false,
+      },
+      amount: {
+        type: "number",
+        required: true,
+      },
+      currency: {
+        type: "string",
+        required: true,
+      },
+      status: {
+        type: "string",
+        required: true,
+      },
+      method: {
+        type: "string",
+        required: false,
+      },
+      email: {
+        type: "string",
+        required: false,
+      },
+      contact: {
+        type: "string",
+        required: false,
+      },
+      errorCode: {
+        type: "string",
+        required: false,
+      },
+      errorDescription: {
+        type: "string",
+        required: false,
+      },
+      capturedAt: {
+        type: "date",
+        required: false,
+      },
+      createdAt: {
+        type: "date",
+        required: true,
+      },
+      updatedAt: {
+        type: "date",
+        required: false,
+      },
+    },
+  },
+} satisfies BetterAuthPluginDBSchema;
+
+export const invoices = {
+  invoice: {
+    fields: {
+      razorpayInvoiceId: {
+        type: "string",
+        required: true,
+        unique: true,
+      },
+      invoiceNumber: {
+        type: "string",
+        required: false,
+      },
+      razorpaySubscriptionId: {
+        type: "string",
+        required: false,
+      },
+      razorpayCustomerId: {
+        type: "string",
+        required: false,
+      },
+      razorpayPaymentId: {
+        type: "string",
+        required: false,
+      },
+      razorpayOrderId: {
+        type: "string",
+        required: false,
+      },
+      subscriptionId: {
+        type: "string",
+        required: false,
+      },
+      referenceId: {
+        type: "string",
+        required: false,
+      },
+      status: {
+        type: "string",
+        required: true,
+      },
+      amount: {
+        type: "number",
+        required: true,
+      },
+      amountPaid: {
+        type: "number",
+        required: false,
+        defaultValue: 0,
+      },
+      amountDue: {
+        type: "number",
+        required: false,
+      },
+      taxAmount: {
+        type: "number",
+        required: false,
+      },
+      currency: {
+        type: "string",
+        required: true,
+      },
+      shortUrl: {
+        type: "string",
+        required: false,
+      },
+      billingStart: {
+        type: "date",
+        required: false,
+      },
+      billingEnd: {
+        type: "date",
+        required: false,
+      },
+      issuedAt: {
+        type: "date",
+        required: false,
+      },
+      paidAt: {
+        type: "date",
+        required: false,
+      },
+      expiredAt: {
+        type: "date",
+        required: false,
+      },
+      createdAt: {
+        type: "date",
+        required: true,
+      },
+      updatedAt: {
+        type: "date",
+        required: false,
+      },
+    },
+  },
+} satisfies BetterAuthPluginDBSchema;
+
+export const refunds = {
+  refund: {
+    fields: {
+      razorpayRefundId: {
+        type: "string",
+        required: true,
+        unique: true,
+      },
+      razorpayPaymentId: {
+        type: "string",
+        required: true,
+      },
+      paymentId: {
+        type: "string",
+        required: false,
+      },
+      subscriptionId: {
+        type: "string",
+        required: false,
+      },
+      referenceId: {
+        type: "string",
+        required: false,
+      },
+      amount: {
+        type: "number",
+        required: true,
+      },
+      currency: {
+        type: "string",
+        required: true,
+      },
+      status: {
+        type: "string",
+        required: true,
+      },
+      speedRequested: {
+        type: "string",
+        required: false,
+      },
+      speedProcessed: {
+        type: "string",
+        required: false,
+      },
+      receipt: {
+        type: "string",
+        required: false,
+      },
+      processedAt: {
+        type: "date",
+        required: false,
+      },
+      createdAt: {
+        type: "date",
+        required: true,
+      },
+      updatedAt: {
+        type: "date",
+        required: false,
+      },
+    },
+  },
+} satisfies BetterAuthPluginDBSchema;
+
+export const disputes = {
+  dispute: {
+    fields: {
+      razorpayDisputeId: {
+        type: "string",
+        required: true,
+        unique: true,
+      },
+      razorpayPaymentId: {
+        type: "string",
+        required: true,
+      },
+      paymentId: {
+        type: "string",
+        required: false,
+      },
+      subscriptionId: {
+        type: "string",
+        required: false,
+      },
+      referenceId: {
+        type: "string",
+        required: false,
+      },
+      amount: {
+        type: "number",
+        required: true,
+      },
+      amountDeducted: {
+        type: "number",
+        required: false,
+      },
+      currency: {
+        type: "string",
+        required: true,
+      },
+      reasonCode: {
+        type: "string",
+        required: false,
+      },
+      reasonDescription: {
+        type: "string",
+        required: false,
+      },
+      status: {
+        type: "string",
+        required: true,
+      },
+      phase: {
+        type: "string",
+        required: false,
+      },
+      respondBy: {
+        type: "date",
+        required: false,
+      },
+      resolvedAt: {
+        type: "date",
+        required: false,
+      },
+      createdAt: {
+        type: "date",
+        required: true,
+      },
+      updatedAt: {
+        type: "date",
+        required: false,
+      },
     },
   },
 } satisfies BetterAuthPluginDBSchema;
@@ -123,7 +637,15 @@ export const organization = {
 } satisfies BetterAuthPluginDBSchema;
 
 type GetSchemaResult<O extends RazorpayOptions> = typeof user &
-  (O["subscription"] extends { enabled: true } ? typeof subscriptions : {}) &
+  typeof webhookEvents &
+  typeof webhookDeadLetters &
+  typeof payments &
+  typeof invoices &
+  typeof refunds &
+  typeof disputes &
+  (O["subscription"] extends { enabled: true }
+    ? typeof subscriptions & typeof usageRecords
+    : {}) &
   (O["organization"] extends { enabled: true } ? typeof organization : {});
 
 export const getSchema = <O extends RazorpayOptions>(
@@ -134,11 +656,24 @@ export const getSchema = <O extends RazorpayOptions>(
   if (options.subscription?.enabled) {
     baseSchema = {
       ...subscriptions,
+      ...usageRecords,
       ...user,
+      ...webhookEvents,
+      ...webhookDeadLetters,
+      ...payments,
+      ...invoices,
+      ...refunds,
+      ...disputes,
     };
   } else {
     baseSchema = {
       ...user,
+      ...webhookEvents,
+      ...webhookDeadLetters,
+      ...payments,
+      ...invoices,
+      ...refunds,
+      ...disputes,
     };
   }
 
@@ -152,9 +687,13 @@ export const getSchema = <O extends RazorpayOptions>(
   if (
     options.schema &&
     !options.subscription?.enabled &&
-    "subscription" in options.schema
+    ("subscription" in options.schema || "usageRecord" in options.schema)
   ) {
-    const { subscription: _subscription, ...restSchema } = options.schema;
+    const {
+      subscription: _subscription,
+      usageRecord: _usageRecord,
+      ...restSchema
+    } = options.schema;
     return mergeSchema(baseSchema, restSchema) as GetSchemaResult<O>;
   }
 
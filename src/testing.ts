@@ -0,0 +1,1248 @@
+/**
+ * Test utilities for apps using the Razorpay plugin.
+ *
+ * Build realistic webhook events and send them to your auth handler with a
+ * valid signature, without computing HMACs by hand. `createFakeRazorpay`
+ * replaces the Razorpay SDK so whole billing flows run offline.
+ *
+ * @example
+ * ```ts
+ * import {
+ *   createSignedWebhookRequest,
+ *   createSubscriptionEvent,
+ * } from "better-auth-razorpay/testing";
+ *
+ * const event = createSubscriptionEvent("subscription.charged", {
+ *   id: "sub_123",
+ *   notes: { referenceId: user.id },
+ * });
+ * const request = createSignedWebhookRequest(event, { secret: "whsec" });
+ * const response = await auth.handler(request);
+ * ```
+ *
+ * @module
+ */
+
+import * as crypto from "node:crypto";
+import type {
+  RazorpayAddonEntity,
+  RazorpayDisputeEntity,
+  RazorpayInvoiceEntity,
+  RazorpayOptions,
+  RazorpayOrderEntity,
+  RazorpayPaymentEntity,
+  RazorpayPlanPeriod,
+  RazorpayRefundEntity,
+  RazorpaySubscriptionEntity,
+  RazorpaySubscriptionStatus,
+  RazorpayTypedWebhookEvent,
+  RazorpayWebhookEvent,
+  RazorpayWebhookEventMap,
+  RazorpayWebhookEventName,
+} from "./types";
+import { addBillingCycle } from "./utils";
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/**
+ * Generate a Razorpay-style ID, e.g. `sub_4f1c9a2b7d3e5f`.
+ */
+export function createRazorpayId(prefix: string): string {
+  return `${prefix}_${crypto.randomBytes(7).toString("hex")}`;
+}
+
+/**
+ * Current time as a Unix timestamp in seconds, as Razorpay sends it.
+ */
+function now(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+const DAY = 24 * 60 * 60;
+
+// ─── Entity Factories ────────────────────────────────────────────────────────
+
+/**
+ * Build a Razorpay subscription entity for a monthly plan that has been
+ * charged once.
+ */
+export function createRazorpaySubscription(
+  overrides: Partial<RazorpaySubscriptionEntity> = {},
+): RazorpaySubscriptionEntity {
+  const createdAt = now();
+  return {
+    id: createRazorpayId("sub"),
+    entity: "subscription",
+    plan_id: "plan_test",
+    customer_id: "cust_test",
+    status: "active",
+    current_start: createdAt,
+    current_end: createdAt + 30 * DAY,
+    ended_at: null,
+    quantity: 1,
+    notes: {},
+    charge_at: createdAt + 30 * DAY,
+    start_at: createdAt,
+    end_at: createdAt + 365 * DAY,
+    auth_attempts: 0,
+    total_count: 12,
+    paid_count: 1,
+    customer_notify: true,
+    created_at: createdAt,
+    expire_by: null,
+    short_url: "https://rzp.io/i/test",
+    has_scheduled_changes: false,
+    change_scheduled_at: null,
+    source: "api",
+    remaining_count: 11,
+    payment_method: "card",
+    ...overrides,
+  };
+}
+
+/**
+ * Build a captured Razorpay card payment entity.
+ */
+export function createRazorpayPayment(
+  overrides: Partial<RazorpayPaymentEntity> = {},
+): RazorpayPaymentEntity {
+  return {
+    id: createRazorpayId("pay"),
+    entity: "payment",
+    amount: 49900,
+    currency: "INR",
+    status: "captured",
+    order_id: createRazorpayId("order"),
+    invoice_id: null,
+    international: false,
+    method: "card",
+    amount_refunded: 0,
+    refund_status: null,
+    captured: true,
+    description: null,
+    card_id: createRazorpayId("card"),
+    bank: null,
+    wallet: null,
+    vpa: null,
+    email: "customer@example.com",
+    contact: "+919999999999",
+    customer_id: "cust_test",
+    notes: {},
+    fee: 1178,
+    tax: 180,
+    error_code: null,
+    error_description: null,
+    created_at: now(),
+    ...overrides,
+  };
+}
+
+/**
+ * Build a paid Razorpay subscription invoice entity.
+ */
+export function createRazorpayInvoice(
+  overrides: Partial<RazorpayInvoiceEntity> = {},
+): RazorpayInvoiceEntity {
+  const createdAt = now();
+  return {
+    id: createRazorpayId("inv"),
+    entity: "invoice",
+    type: "invoice",
+    invoice_number: null,
+    customer_id: "cust_test",
+    order_id: createRazorpayId("order"),
+    subscription_id: null,
+    payment_id: null,
+    status: "paid",
+    amount: 49900,
+    amount_paid: 49900,
+    amount_due: 0,
+    gross_amount: 49900,
+    tax_amount: 0,
+    currency: "INR",
+    description: null,
+    notes: {},
+    short_url: "https://rzp.io/i/test",
+    billing_start: createdAt,
+    billing_end: createdAt + 30 * DAY,
+    issued_at: createdAt,
+    paid_at: createdAt,
+    cancelled_at: null,
+    expired_at: null,
+    date: createdAt,
+    created_at: createdAt,
+    ...overrides,
+  };
+}
+
+/**
+ * Build a pending Razorpay refund entity.
+ */
+export function createRazorpayRefund(
+  overrides: Partial<RazorpayRefundEntity> = {},
+): RazorpayRefundEntity {
+  return {
+    id: createRazorpayId("rfnd"),
+    entity: "refund",
+    amount: 49900,
+    currency: "INR",
+    payment_id: createRazorpayId("pay"),
+    notes: {},
+    receipt: null,
+    status: "pending",
+    speed_requested: "normal",
+    speed_processed: null,
+    created_at: now(),
+    ...overrides,
+  };
+}
+
+/**
+ * Build an open Razorpay chargeback dispute entity.
+ */
+export function createRazorpayDispute(
+  overrides: Partial<RazorpayDisputeEntity> = {},
+): RazorpayDisputeEntity {
+  const createdAt = now();
+  return {
+    id: createRazorpayId("disp"),
+    entity: "dispute",
+    payment_id: createRazorpayId("pay"),
+    amount: 49900,
+    currency: "INR",
+    amount_deducted: 0,
+    reason_code: "chargeback",
+    reason_description: null,
+    respond_by: createdAt + 7 * DAY,
+    status: "open",
+    phase: "chargeback",
+    created_at: createdAt,
+    ...overrides,
+  };
+}
+
+// ─── Event Factories ─────────────────────────────────────────────────────────
+
+/**
+ * Build a webhook event with the given payload.
+ */
+export function createWebhookEvent<E extends RazorpayWebhookEventName>(
+  event: E,
+  payload: RazorpayWebhookEventMap[E],
+  overrides: Partial<Omit<RazorpayWebhookEvent, "event" | "payload">> = {},
+): RazorpayTypedWebhookEvent<E> {
+  return {
+    entity: "event",
+    account_id: "acc_test",
+    event,
+    contains: Object.keys(payload as object),
+    payload,
+    created_at: now(),
+    ...overrides,
+  } as RazorpayTypedWebhookEvent<E>;
+}
+
+type SubscriptionEventName = Extract<
+  RazorpayWebhookEventName,
+  `subscription.${string}`
+>;
+
+/**
+ * Subscription status Razorpay reports with each subscription event.
+ */
+const SUBSCRIPTION_EVENT_STATUS: Record<
+  SubscriptionEventName,
+  RazorpaySubscriptionStatus
+> = {
+  "subscription.authenticated": "authenticated",
+  "subscription.activated": "active",
+  "subscription.charged": "active",
+  "subscription.pending": "pending",
+  "subscription.halted": "halted",
+  "subscription.cancelled": "cancelled",
+  "subscription.completed": "completed",
+  "subscription.paused": "paused",
+  "subscription.resumed": "active",
+  "subscription.updated": "active",
+};
+
+/**
+ * Build a `subscription.*` event. The subscription status matches the
+ * event unless overridden, and `subscription.charged` carries a payment.
+ */
+export function createSubscriptionEvent<E extends SubscriptionEventName>(
+  event: E,
+  subscription: Partial<RazorpaySubscriptionEntity> = {},
+  options: { payment?: Partial<RazorpayPaymentEntity> | undefined } = {},
+): RazorpayTypedWebhookEvent<E> {
+  const entity = createRazorpaySubscription({
+    status: SUBSCRIPTION_EVENT_STATUS[event],
+    ...(event === "subscription.authenticated"
+      ? { paid_count: 0, remaining_count: 12, current_start: null }
+      : {}),
+    ...(event === "subscription.cancelled" ? { ended_at: now() } : {}),
+    ...(event === "subscription.paused" ? { paused_at: now() } : {}),
+    ...subscription,
+  });
+  const payment =
+    options.payment || event === "subscription.charged"
+      ? createRazorpayPayment({
+          customer_id: entity.customer_id,
+          ...options.payment,
+        })
+      : undefined;
+
+  return createWebhookEvent(event, {
+    subscription: { entity },
+    ...(payment ? { payment: { entity: payment } } : {}),
+  } as RazorpayWebhookEventMap[E]);
+}
+
+/**
+ * Build a `payment.authorized`, `payment.captured` or `payment.failed` event.
+ */
+export function createPaymentEvent(
+  event: "payment.authorized" | "payment.captured" | "payment.failed",
+  payment: Partial<RazorpayPaymentEntity> = {},
+) {
+  const failed = event === "payment.failed";
+  return createWebhookEvent(event, {
+    payment: {
+      entity: createRazorpayPayment({
+        status:
+          event === "payment.authorized"
+            ? "authorized"
+            : failed
+              ? "failed"
+              : "captured",
+        captured: event === "payment.captured",
+        ...(failed
+          ? {
+              error_code: "BAD_REQUEST_ERROR",
+              error_description: "Payment was declined by the bank",
+              fee: null,
+              tax: null,
+            }
+          : {}),
+        ...payment,
+      }),
+    },
+  });
+}
+
+/**
+ * Build the order Razorpay creates behind a subscription invoice.
+ *
+ * @internal
+ */
+function createOrderForInvoice(
+  invoice: RazorpayInvoiceEntity,
+): RazorpayOrderEntity {
+  return {
+    id: invoice.order_id ?? createRazorpayId("order"),
+    entity: "order",
+    amount: invoice.amount,
+    amount_paid: invoice.amount_paid,
+    amount_due: invoice.amount_due,
+    currency: invoice.currency,
+    receipt: null,
+    offer_id: null,
+    status: invoice.amount_due === 0 ? "paid" : "attempted",
+    attempts: 1,
+    notes: {},
+    created_at: invoice.created_at,
+  };
+}
+
+/**
+ * Build an `invoice.*` event for a subscription invoice, with the payment
+ * that settled it.
+ */
+export function createInvoiceEvent<
+  E extends "invoice.paid" | "invoice.partially_paid" | "invoice.expired",
+>(
+  event: E,
+  invoice: Partial<RazorpayInvoiceEntity> = {},
+  payment: Partial<RazorpayPaymentEntity> = {},
+): RazorpayTypedWebhookEvent<E> {
+  const paymentEntity = createRazorpayPayment(payment);
+  const invoiceEntity = createRazorpayInvoice({
+    payment_id: event === "invoice.expired" ? null : paymentEntity.id,
+    order_id: paymentEntity.order_id,
+    ...(event === "invoice.partially_paid"
+      ? { status: "partially_paid", amount_paid: 20000, amount_due: 29900 }
+      : {}),
+    ...(event === "invoice.expired"
+      ? {
+          status: "expired",
+          amount_paid: 0,
+          amount_due: 49900,
+          paid_at: null,
+          expired_at: now(),
+        }
+      : {}),
+    ...invoice,
+  });
+  const order = { entity: createOrderForInvoice(invoiceEntity) };
+
+  return createWebhookEvent(event, {
+    ...(event === "invoice.expired"
+      ? {}
+      : { payment: { entity: paymentEntity } }),
+    order,
+    invoice: { entity: invoiceEntity },
+  } as RazorpayWebhookEventMap[E]);
+}
+
+/**
+ * Build a `refund.*` event. The refund is issued against the payment.
+ */
+export function createRefundEvent(
+  event: "refund.created" | "refund.processed" | "refund.failed",
+  refund: Partial<RazorpayRefundEntity> = {},
+  payment: Partial<RazorpayPaymentEntity> = {},
+) {
+  const paymentEntity = createRazorpayPayment(payment);
+  const refundEntity = createRazorpayRefund({
+    payment_id: paymentEntity.id,
+    amount: paymentEntity.amount,
+    status:
+      event === "refund.processed"
+        ? "processed"
+        : event === "refund.failed"
+          ? "failed"
+          : "pending",
+    ...(event === "refund.processed" ? { speed_processed: "normal" } : {}),
+    ...refund,
+  });
+
+  return createWebhookEvent(event, {
+    payment: {
+      entity: {
+        ...paymentEntity,
+        amount_refunded:
+          refundEntity.status === "processed" ? refundEntity.amount : 0,
+      },
+    },
+    refund: { entity: refundEntity },
+  });
+}
+
+/**
+ * Build a `payment.dispute.*` event. The dispute is raised against the
+ * payment.
+ */
+export function createDisputeEvent(
+  event:
+    | "payment.dispute.created"
+    | "payment.dispute.won"
+    | "payment.dispute.lost"
+    | "payment.dispute.closed",
+  dispute: Partial<RazorpayDisputeEntity> = {},
+  payment: Partial<RazorpayPaymentEntity> = {},
+) {
+  const paymentEntity = createRazorpayPayment(payment);
+  const status = (
+    {
+      "payment.dispute.created": "open",
+      "payment.dispute.won": "won",
+      "payment.dispute.lost": "lost",
+      "payment.dispute.closed": "closed",
+    } as const
+  )[event];
+
+  return createWebhookEvent(event, {
+    payment: { entity: paymentEntity },
+    dispute: {
+      entity: createRazorpayDispute({
+        payment_id: paymentEntity.id,
+        amount: paymentEntity.amount,
+        status,
+        amount_deducted: status === "lost" ? paymentEntity.amount : 0,
+        ...dispute,
+      }),
+    },
+  });
+}
+
+// ─── Signed Requests ─────────────────────────────────────────────────────────
+
+/**
+ * Compute the `x-razorpay-signature` header for a raw body.
+ */
+export function signWebhookPayload(body: string, secret: string): string {
+  return crypto.createHmac("sha256", secret).update(body).digest("hex");
+}
+
+export interface SignedWebhookRequestOptions {
+  /**
+   * Webhook secret configured as `razorpayWebhookSecret`
+   */
+  secret: string;
+  /**
+   * Origin of your app
+   *
+   * @default "http://localhost:3000"
+   */
+  baseURL?: string | undefined;
+  /**
+   * Better Auth base path
+   *
+   * @default "/api/auth"
+   */
+  basePath?: string | undefined;
+  /**
+   * `x-razorpay-event-id` header. Pass the same ID twice to test
+   * duplicate deliveries.
+   *
+   * @default a new random ID
+   */
+  eventId?: string | undefined;
+}
+
+/**
+ * Build a `POST` request to the Razorpay webhook endpoint, signed with the
+ * given secret. Pass it to `auth.handler`.
+ */
+export function createSignedWebhookRequest(
+  event: RazorpayWebhookEvent | RazorpayTypedWebhookEvent,
+  options: SignedWebhookRequestOptions,
+): Request {
+  const body = JSON.stringify(event);
+  const baseURL = (options.baseURL ?? "http://localhost:3000").replace(
+    /\/$/,
+    "",
+  );
+  const basePath = options.basePath ?? "/api/auth";
+
+  return new Request(`${baseURL}${basePath}/razorpay/webhook`, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      "x-razorpay-signature": signWebhookPayload(body, options.secret),
+      "x-razorpay-event-id": options.eventId ?? createRazorpayId("evt"),
+    },
+    body,
+  });
+}
+
+// ─── Fake Razorpay Client ────────────────────────────────────────────────────
+
+export interface FakeRazorpayPlan {
+  id: string;
+  entity: "plan";
+  interval: number;
+  period: RazorpayPlanPeriod;
+  item: {
+    id: string;
+    name: string;
+    amount: number;
+    currency: string;
+    description: string | null;
+  };
+  notes: Record<string, string>;
+  created_at: number;
+}
+
+export interface FakeRazorpayCustomer {
+  id: string;
+  entity: "customer";
+  name: string | null;
+  email: string | null;
+  contact: string | null;
+  gstin: string | null;
+  notes: Record<string, string>;
+  created_at: number;
+}
+
+export interface FakeRazorpayCollection<T> {
+  entity: "collection";
+  count: number;
+  items: T[];
+}
+
+export interface FakeRazorpayOptions {
+  /**
+   * Plans that exist up front, so the IDs in your plugin config resolve
+   */
+  plans?:
+    | {
+        id: string;
+        amount: number;
+        name?: string | undefined;
+        currency?: string | undefined;
+        period?: RazorpayPlanPeriod | undefined;
+        interval?: number | undefined;
+      }[]
+    | undefined;
+  /**
+   * Offer IDs that can be linked to subscriptions
+   */
+  offers?: string[] | undefined;
+}
+
+export interface FakeRazorpay {
+  /**
+   * Pass as `razorpayClient` in the plugin options.
+   */
+  client: RazorpayOptions["razorpayClient"];
+  /**
+   * Webhook events emitted since the last flush, oldest first.
+   */
+  readonly events: readonly RazorpayWebhookEvent[];
+  /**
+   * Return the pending webhook events and clear the queue.
+   */
+  flushEvents(): RazorpayWebhookEvent[];
+  /**
+   * Flush the pending webhook events and post each one, signed, to the
+   * handler in order.
+   */
+  deliverEvents(
+    handler: (request: Request) => Promise<Response>,
+    options: SignedWebhookRequestOptions,
+  ): Promise<Response[]>;
+  /**
+   * The customer completes the authorization transaction.
+   */
+  authenticate(subscriptionId: string): RazorpaySubscriptionEntity;
+  /**
+   * Bill the next cycle. The first charge activates the subscription;
+   * later charges renew it, applying changes scheduled for the cycle end.
+   * Add-ons created since the last charge are billed with it. A
+   * subscription cancelled at cycle end is cancelled instead.
+   */
+  charge(subscriptionId: string): RazorpaySubscriptionEntity;
+  /**
+   * A charge attempt fails and the subscription moves to `pending`.
+   */
+  failCharge(subscriptionId: string): RazorpaySubscriptionEntity;
+  /**
+   * Razorpay gives up retrying and halts the subscription.
+   */
+  halt(subscriptionId: string): RazorpaySubscriptionEntity;
+}
+
+/**
+ * Build an error shaped like the ones the Razorpay SDK rejects with.
+ *
+ * @internal
+ */
+function razorpayError(description: string, statusCode = 400) {
+  return Object.assign(new Error(description), {
+    statusCode,
+    error: { code: "BAD_REQUEST_ERROR", description },
+  });
+}
+
+/**
+ * @internal
+ */
+function collection<T>(items: T[]): FakeRazorpayCollection<T> {
+  return { entity: "collection", count: items.length, items };
+}
+
+/**
+ * Advance a Unix timestamp by one billing cycle of the plan.
+ *
+ * @internal
+ */
+function addPlanCycle(timestamp: number, plan: FakeRazorpayPlan): number {
+  const next = addBillingCycle(
+    new Date(timestamp * 1000),
+    plan.period,
+    plan.interval,
+  );
+  return Math.floor(next.getTime() / 1000);
+}
+
+const TERMINAL_STATUSES: RazorpaySubscriptionStatus[] = [
+  "cancelled",
+  "completed",
+  "expired",
+];
+
+/**
+ * Create an in-memory stand-in for the Razorpay SDK that covers the calls
+ * the plugin makes: customers, plans, subscriptions and their add-ons,
+ * invoices, offers and refunds. State changes queue the webhook events
+ * Razorpay would send, so whole subscription lifecycles can be tested
+ * offline.
+ *
+ * @example
+ * ```ts
+ * const razorpayFake = createFakeRazorpay({
+ *   plans: [{ id: "plan_pro", amount: 49900 }],
+ * });
+ * const auth = betterAuth({
+ *   plugins: [
+ *     razorpay({ razorpayClient: razorpayFake.client, ... }),
+ *   ],
+ * });
+ *
+ * const { razorpaySubscription } = await auth.api.upgradeSubscription({ ... });
+ * razorpayFake.charge(razorpaySubscription.id);
+ * await razorpayFake.deliverEvents(auth.handler, { secret: "whsec" });
+ * ```
+ */
+export function createFakeRazorpay(
+  options: FakeRazorpayOptions = {},
+): FakeRazorpay {
+  const customers = new Map<string, FakeRazorpayCustomer>();
+  const plans = new Map<string, FakeRazorpayPlan>();
+  const subscriptions = new Map<string, RazorpaySubscriptionEntity>();
+  const invoices = new Map<string, RazorpayInvoiceEntity>();
+  const payments = new Map<string, RazorpayPaymentEntity>();
+  const offers = new Set(options.offers ?? []);
+  const scheduledChanges = new Map<string, Record<string, unknown>>();
+  const cancelAtCycleEnd = new Set<string>();
+  const addons = new Map<string, RazorpayAddonEntity>();
+  let events: RazorpayWebhookEvent[] = [];
+
+  function createPlan(params: any): FakeRazorpayPlan {
+    if (!params?.period || !params?.interval || !params?.item?.amount) {
+      throw razorpayError("period, interval and item.amount are required");
+    }
+    const plan: FakeRazorpayPlan = {
+      id: params.id ?? createRazorpayId("plan"),
+      entity: "plan",
+      interval: params.interval,
+      period: params.period,
+      item: {
+        id: createRazorpayId("item"),
+        name: params.item.name ?? "Plan",
+        amount: params.item.amount,
+        currency: params.item.currency ?? "INR",
+        description: params.item.description ?? null,
+      },
+      notes: params.notes ?? {},
+      created_at: now(),
+    };
+    plans.set(plan.id, plan);
+    return plan;
+  }
+
+  for (const plan of options.plans ?? []) {
+    createPlan({
+      id: plan.id,
+      period: plan.period ?? "monthly",
+      interval: plan.interval ?? 1,
+      item: { name: plan.name, amount: plan.amount, currency: plan.currency },
+    });
+  }
+
+  function find<T>(store: Map<string, T>, id: string): T {
+    const entity = store.get(id);
+    if (!entity) throw razorpayError("The id provided does not exist");
+    return entity;
+  }
+
+  function findActiveSubscription(id: string) {
+    const subscription = find(subscriptions, id);
+    if (TERMINAL_STATUSES.includes(subscription.status)) {
+      throw razorpayError(
+        `Subscription is not cancellable in ${subscription.status} status`,
+      );
+    }
+    return subscription;
+  }
+
+  function emit<E extends RazorpayWebhookEventName>(
+    event: E,
+    payload: RazorpayWebhookEventMap[E],
+  ) {
+    // Snapshot the entities so later state changes don't leak into
+    // events that are still queued.
+    events.push(
+      createWebhookEvent(
+        event,
+        structuredClone(payload),
+      ) as RazorpayWebhookEvent,
+    );
+  }
+
+  function applyChanges(
+    subscription: RazorpaySubscriptionEntity,
+    changes: Record<string, any>,
+  ) {
+    if (changes.plan_id !== undefined) {
+      find(plans, changes.plan_id);
+      subscription.plan_id = changes.plan_id;
+    }
+    if (changes.quantity !== undefined) {
+      subscription.quantity = changes.quantity;
+    }
+    if (changes.remaining_count !== undefined) {
+      subscription.remaining_count = changes.remaining_count;
+      subscription.total_count =
+        subscription.paid_count + changes.remaining_count;
+    }
+  }
+
+  function clearScheduledChanges(subscription: RazorpaySubscriptionEntity) {
+    scheduledChanges.delete(subscription.id);
+    subscription.has_scheduled_changes = false;
+    subscription.change_scheduled_at = null;
+  }
+
+  function cancelNow(subscription: RazorpaySubscriptionEntity) {
+    subscription.status = "cancelled";
+    subscription.ended_at = now();
+    subscription.charge_at = null;
+    subscription.cancel_initiated_by = "self";
+    cancelAtCycleEnd.delete(subscription.id);
+    clearScheduledChanges(subscription);
+    emit("subscription.cancelled", { subscription: { entity: subscription } });
+  }
+
+  function createCharge(
+    subscription: RazorpaySubscriptionEntity,
+    overrides: Partial<RazorpayPaymentEntity>,
+  ) {
+    const plan = find(plans, subscription.plan_id);
+    const customer = customers.get(subscription.customer_id ?? "");
+    const payment = createRazorpayPayment({
+      amount: plan.item.amount * subscription.quantity,
+      currency: plan.item.currency,
+      customer_id: subscription.customer_id ?? null,
+      invoice_id: createRazorpayId("inv"),
+      ...(customer?.email ? { email: customer.email } : {}),
+      ...(customer?.contact ? { contact: customer.contact } : {}),
+      ...overrides,
+    });
+    payments.set(payment.id, payment);
+    return payment;
+  }
+
+  const subscriptionsApi = {
+    async create(params: any) {
+      const plan = find(plans, params?.plan_id);
+      if (!params.total_count) {
+        throw razorpayError("The total count field is required.");
+      }
+      if (params.customer_id) find(customers, params.customer_id);
+      if (params.offer_id && !offers.has(params.offer_id)) {
+        throw razorpayError("The offer id provided does not exist");
+      }
+
+      const startAt = params.start_at ?? now();
+      let endAt = startAt;
+      for (let i = 0; i < params.total_count; i++) {
+        endAt = addPlanCycle(endAt, plan);
+      }
+
+      const subscription = createRazorpaySubscription({
+        plan_id: plan.id,
+        customer_id: params.customer_id,
+        status: "created",
+        current_start: null,
+        current_end: null,
+        quantity: params.quantity ?? 1,
+        notes: params.notes ?? {},
+        charge_at: startAt,
+        start_at: startAt,
+        end_at: endAt,
+        total_count: params.total_count,
+        paid_count: 0,
+        remaining_count: params.total_count,
+        customer_notify: params.customer_notify ?? true,
+        expire_by: params.expire_by ?? null,
+        short_url: `https://rzp.io/i/${crypto.randomBytes(5).toString("hex")}`,
+        ...(params.offer_id ? { offer_id: params.offer_id } : {}),
+      });
+      // Razorpay only knows the payment method once the customer authorizes
+      delete subscription.payment_method;
+      subscriptions.set(subscription.id, subscription);
+      return structuredClone(subscription);
+    },
+
+    async fetch(id: string) {
+      return structuredClone(find(subscriptions, id));
+    },
+
+    async update(id: string, params: any) {
+      const subscription = findActiveSubscription(id);
+      const { schedule_change_at, offer_id, ...changes } = params ?? {};
+
+      if (offer_id !== undefined) {
+        if (!offers.has(offer_id)) {
+          throw razorpayError("The offer id provided does not exist");
+        }
+        subscription.offer_id = offer_id;
+      }
+      if (changes.plan_id !== undefined) find(plans, changes.plan_id);
+
+      if (Object.keys(changes).length > 0) {
+        if (schedule_change_at === "cycle_end") {
+          scheduledChanges.set(id, {
+            ...scheduledChanges.get(id),
+            ...changes,
+          });
+          subscription.has_scheduled_changes = true;
+          subscription.change_scheduled_at = subscription.current_end;
+        } else {
+          applyChanges(subscription, changes);
+          emit("subscription.updated", {
+            subscription: { entity: subscription },
+          });
+        }
+      }
+      return structuredClone(subscription);
+    },
+
+    async pendingUpdate(id: string) {
+      const subscription = find(subscriptions, id);
+      const changes = scheduledChanges.get(id);
+      if (!changes) {
+        throw razorpayError("There is no pending update for the subscription");
+      }
+      const pending = structuredClone(subscription);
+      applyChanges(pending, changes);
+      return pending;
+    },
+
+    async cancelScheduledChanges(id: string) {
+      const subscription = find(subscriptions, id);
+      clearScheduledChanges(subscription);
+      return structuredClone(subscription);
+    },
+
+    async cancel(id: string, atCycleEnd = false) {
+      const subscription = findActiveSubscription(id);
+      if (atCycleEnd && subscription.status === "active") {
+        cancelAtCycleEnd.add(id);
+      } else {
+        cancelNow(subscription);
+      }
+      return structuredClone(subscription);
+    },
+
+    async pause(id: string, _params?: { pause_at?: "now" }) {
+      const subscription = find(subscriptions, id);
+      if (subscription.status !== "active") {
+        throw razorpayError(
+          `Subscription cannot be paused in ${subscription.status} status`,
+        );
+      }
+      subscription.status = "paused";
+      subscription.paused_at = now();
+      subscription.pause_initiated_by = "self";
+      emit("subscription.paused", { subscription: { entity: subscription } });
+      return structuredClone(subscription);
+    },
+
+    async resume(id: string, _params?: { resume_at?: "now" }) {
+      const subscription = find(subscriptions, id);
+      if (subscription.status !== "paused") {
+        throw razorpayError(
+          `Subscription cannot be resumed in ${subscription.status} status`,
+        );
+      }
+      subscription.status = "active";
+      delete subscription.paused_at;
+      subscription.pause_initiated_by = null;
+      emit("subscription.resumed", { subscription: { entity: subscription } });
+      return structuredClone(subscription);
+    },
+
+    async createAddon(id: string, params: any) {
+      const subscription = findActiveSubscription(id);
+      if (!params?.item?.name || !params?.item?.amount) {
+        throw razorpayError("item.name and item.amount are required");
+      }
+      const addon: RazorpayAddonEntity = {
+        id: createRazorpayId("ao"),
+        entity: "addon",
+        item: {
+          id: createRazorpayId("item"),
+          name: params.item.name,
+          amount: params.item.amount,
+          currency: params.item.currency ?? "INR",
+          description: params.item.description ?? null,
+        },
+        quantity: params.quantity ?? 1,
+        created_at: now(),
+        subscription_id: subscription.id,
+        invoice_id: null,
+      };
+      addons.set(addon.id, addon);
+      return structuredClone(addon);
+    },
+
+    async fetchAddon(addonId: string) {
+      return structuredClone(find(addons, addonId));
+    },
+
+    async deleteOffer(id: string, offerId: string) {
+      const subscription = find(subscriptions, id);
+      if (subscription.offer_id !== offerId) {
+        throw razorpayError("The offer is not linked to the subscription");
+      }
+      delete subscription.offer_id;
+      return structuredClone(subscription);
+    },
+  };
+
+  const client = {
+    customers: {
+      async create(params: any) {
+        const existing = [...customers.values()].find(
+          (customer) =>
+            customer.email === (params?.email ?? null) &&
+            customer.contact === (params?.contact ?? null),
+        );
+        if (existing) {
+          if (params?.fail_existing === "0" || params?.fail_existing === 0) {
+            return structuredClone(existing);
+          }
+          throw razorpayError("Customer already exists for the merchant");
+        }
+        const customer: FakeRazorpayCustomer = {
+          id: createRazorpayId("cust"),
+          entity: "customer",
+          name: params?.name ?? null,
+          email: params?.email ?? null,
+          contact: params?.contact ?? null,
+          gstin: params?.gstin ?? null,
+          notes: params?.notes ?? {},
+          created_at: now(),
+        };
+        customers.set(customer.id, customer);
+        return structuredClone(customer);
+      },
+      async fetch(id: string) {
+        return structuredClone(find(customers, id));
+      },
+      async edit(id: string, params: any) {
+        const customer = find(customers, id);
+        Object.assign(customer, params);
+        return structuredClone(customer);
+      },
+      async all() {
+        return collection(structuredClone([...customers.values()]));
+      },
+    },
+    plans: {
+      async create(params: any) {
+        return structuredClone(createPlan({ ...params, id: undefined }));
+      },
+      async fetch(id: string) {
+        return structuredClone(find(plans, id));
+      },
+      async all() {
+        return collection(structuredClone([...plans.values()]));
+      },
+    },
+    subscriptions: subscriptionsApi,
+    invoices: {
+      async all(params?: { subscription_id?: string }) {
+        const items = [...invoices.values()]
+          .filter(
+            (invoice) =>
+              !params?.subscription_id ||
+              invoice.subscription_id === params.subscription_id,
+          )
+          .sort((a, b) => b.created_at - a.created_at);
+        return collection(structuredClone(items));
+      },
+    },
+    payments: {
+      async fetch(id: string) {
+        return structuredClone(find(payments, id));
+      },
+      async refund(paymentId: string, params: any = {}) {
+        const payment = find(payments, paymentId);
+        if (payment.status !== "captured" && payment.status !== "refunded") {
+          throw razorpayError("Only captured payments can be refunded");
+        }
+        const refundable = payment.amount - payment.amount_refunded;
+        const amount = params.amount ?? refundable;
+        if (amount <= 0 || amount > refundable) {
+          throw razorpayError(
+            "The refund amount provided is greater than amount captured",
+          );
+        }
+
+        payment.amount_refunded += amount;
+        payment.refund_status =
+          payment.amount_refunded === payment.amount ? "full" : "partial";
+        if (payment.refund_status === "full") payment.status = "refunded";
+
+        const refund = createRazorpayRefund({
+          payment_id: payment.id,
+          amount,
+          currency: payment.currency,
+          notes: params.notes ?? {},
+          receipt: params.receipt ?? null,
+          status: "processed",
+          speed_requested: params.speed ?? "normal",
+          speed_processed: "normal",
+        });
+        emit("refund.processed", {
+          payment: { entity: payment },
+          refund: { entity: refund },
+        });
+        return structuredClone(refund);
+      },
+    },
+  };
+
+  return {
+    client: client as unknown as RazorpayOptions["razorpayClient"],
+
+    get events() {
+      return events;
+    },
+
+    flushEvents() {
+      const flushed = events;
+      events = [];
+      return flushed;
+    },
+
+    async deliverEvents(handler, requestOptions) {
+      const responses: Response[] = [];
+      for (const event of this.flushEvents()) {
+        responses.push(
+          await handler(createSignedWebhookRequest(event, requestOptions)),
+        );
+      }
+      return responses;
+    },
+
+    authenticate(subscriptionId) {
+      const subscription = find(subscriptions, subscriptionId);
+      if (subscription.status !== "created") {
+        throw razorpayError(
+          `Subscription cannot be authenticated in ${subscription.status} status`,
+        );
+      }
+      subscription.status = "authenticated";
+      subscription.payment_method = "card";
+      emit("subscription.authenticated", {
+        subscription: { entity: subscription },
+      });
+      return structuredClone(subscription);
+    },
+
+    charge(subscriptionId) {
+      const subscription = findActiveSubscription(subscriptionId);
+      if (subscription.status === "paused") {
+        throw razorpayError("Paused subscriptions are not charged");
+      }
+
+      const renewal = subscription.paid_count > 0;
+      if (renewal && cancelAtCycleEnd.has(subscriptionId)) {
+        cancelNow(subscription);
+        return structuredClone(subscription);
+      }
+
+      const changes = scheduledChanges.get(subscriptionId);
+      if (renewal && changes) {
+        applyChanges(subscription, changes);
+        clearScheduledChanges(subscription);
+        emit("subscription.updated", {
+          subscription: { entity: subscription },
+        });
+      }
+
+      const plan = find(plans, subscription.plan_id);
+      const start =
+        renewal && subscription.current_end ? subscription.current_end : now();
+      subscription.status = "active";
+      subscription.payment_method ??= "card";
+      subscription.current_start = start;
+      subscription.current_end = addPlanCycle(start, plan);
+      subscription.charge_at = subscription.current_end;
+      subscription.paid_count += 1;
+      subscription.remaining_count -= 1;
+      subscription.auth_attempts = 0;
+
+      // Add-ons created since the last invoice are billed on this one
+      const pendingAddons = [...addons.values()].filter(
+        (addon) =>
+          addon.subscription_id === subscription.id && !addon.invoice_id,
+      );
+      const payment = createCharge(subscription, {
+        amount:
+          plan.item.amount * subscription.quantity +
+          pendingAddons.reduce(
+            (total, addon) => total + addon.item.amount * addon.quantity,
+            0,
+          ),
+      });
+      for (const addon of pendingAddons) {
+        addon.invoice_id = payment.invoice_id;
+      }
+      const invoice = createRazorpayInvoice({
+        id: payment.invoice_id!,
+        customer_id: subscription.customer_id ?? null,
+        order_id: payment.order_id,
+        subscription_id: subscription.id,
+        payment_id: payment.id,
+        amount: payment.amount,
+        amount_paid: payment.amount,
+        gross_amount: payment.amount,
+        currency: payment.currency,
+        short_url: subscription.short_url ?? "",
+        billing_start: subscription.current_start,
+        billing_end: subscription.current_end,
+      });
+      invoices.set(invoice.id, invoice);
+
+      if (!renewal) {
+        emit("subscription.activated", {
+          subscription: { entity: subscription },
+        });
+      }
+      emit("subscription.charged", {
+        subscription: { entity: subscription },
+        payment: { entity: payment },
+      });
+      emit("invoice.paid", {
+        payment: { entity: payment },
+        order: { entity: createOrderForInvoice(invoice) },
+        invoice: { entity: invoice },
+      });
+
+      if (subscription.remaining_count === 0) {
+        subscription.status = "completed";
+        subscription.ended_at = now();
+        subscription.charge_at = null;
+        emit("subscription.completed", {
+          subscription: { entity: subscription },
+        });
+      }
+      return structuredClone(subscription);
+    },
+
+    failCharge(subscriptionId) {
+      const subscription = findActiveSubscription(subscriptionId);
+      const payment = createCharge(subscription, {
+        status: "failed",
+        captured: false,
+        invoice_id: null,
+        fee: null,
+        tax: null,
+        error_code: "BAD_REQUEST_ERROR",
+        error_description: "Payment was declined by the bank",
+      });
+      subscription.status = "pending";
+      subscription.auth_attempts += 1;
+
+      emit("payment.failed", { payment: { entity: payment } });
+      emit("subscription.pending", {
+        subscription: { entity: subscription },
+      });
+      return structuredClone(subscription);
+    },
+
+    halt(subscriptionId) {
+      const subscription = findActiveSubscription(subscriptionId);
+      subscription.status = "halted";
+      subscription.charge_at = null;
+      emit("subscription.halted", { subscription: { entity: subscription } });
+      return structuredClone(subscription);
+    },
+  };
+}
@@ -6,7 +6,18 @@ import type {
 } from "better-auth";
 import type { Organization } from "better-auth/plugins/organization";
 import type Razorpay from "razorpay";
-import type { organization, subscriptions, user } from "./schema";
+import type {
+  disputes,
+  invoices,
+  organization,
+  payments,
+  refunds,
+  subscriptions,
+  usageRecords,
+  user,
+  webhookDeadLetters,
+  webhookEvents,
+} from "./schema";
 
 export type AuthorizeReferenceAction =
   | "upgrade-subscription"
@@ -16,10 +27,37 @@ export type AuthorizeReferenceAction =
   | "resume-subscription"
   | "update-subscription"
   | "restore-subscription"
-  | "get-subscription";
+  | "get-subscription"
+  | "list-invoice"
+  | "preview-subscription-change"
+  | "get-payment-link"
+  | "get-entitlements";
+
+/**
+ * Actions guarded by the `authorizeAdmin` callback.
+ */
+export type AdminAction =
+  | "create-refund"
+  | "list-webhook-dead-letters"
+  | "replay-webhook-dead-letter"
+  | "resume-due-subscriptions"
+  | "process-trials"
+  | "process-dunning"
+  | "report-usage"
+  | "bill-usage";
 
 export type CustomerType = "user" | "organization";
 
+/**
+ * One or more webhook secrets, or a function that resolves them per request.
+ */
+export type RazorpayWebhookSecret =
+  | string
+  | string[]
+  | ((
+      ctx: GenericEndpointContext,
+    ) => string | string[] | Promise<string | string[]>);
+
 export type WithRazorpayCustomerId = {
   razorpayCustomerId?: string;
 };
@@ -35,11 +73,13 @@ export type RazorpayCtxSession = {
 };
 
 /**
- * Razorpay subscription status lifecycle.
+ * Razorpay subscription status lifecycle, plus the local-only `trialing`
+ * status of card-less trials that have no Razorpay subscription yet.
  *
  * @see https://razorpay.com/docs/payments/subscriptions/states/
  */
 export type RazorpaySubscriptionStatus =
+  | "trialing"
   | "created"
   | "authenticated"
   | "active"
@@ -50,6 +90,33 @@ export type RazorpaySubscriptionStatus =
   | "expired"
   | "paused";
 
+/**
+ * Price of a usage metric billed on top of a plan. Amounts are in the
+ * smallest currency unit.
+ */
+export type UsagePricing = {
+  /**
+   * Price per unit above the free allowance
+   */
+  unitAmount: number;
+  /**
+   * Units included in each billing cycle at no charge
+   *
+   * @default 0
+   */
+  freeUnits?: number | undefined;
+  /**
+   * @default "INR"
+   */
+  currency?: string | undefined;
+  /**
+   * Name of the add-on on the invoice
+   *
+   * @default the metric name
+   */
+  name?: string | undefined;
+};
+
 export type RazorpayPlan = {
   /**
    * Razorpay Plan ID (e.g., plan_00000000000001)
@@ -66,7 +133,8 @@ export type RazorpayPlan = {
   /**
    * Limits for the plan
    *
-   * useful when you want to define plan-specific metadata.
+   * useful when you want to define plan-specific metadata. Returned,
+   * merged across subscriptions, by `/subscription/entitlements`.
    */
   limits?: Record<string, unknown> | undefined;
   /**
@@ -90,6 +158,28 @@ export type RazorpayPlan = {
    * automatically sync the seat quantity.
    */
   quantity?: number | undefined;
+  /**
+   * Limits on customer-initiated pauses
+   */
+  pause?:
+    | {
+        /**
+         * Longest pause allowed, in days. Pauses without a `resumeAt`
+         * resume after this many days.
+         */
+        maxDays?: number | undefined;
+        /**
+         * Number of pauses allowed in a rolling 365-day window
+         */
+        maxPausesPerYear?: number | undefined;
+      }
+    | undefined;
+  /**
+   * Pricing of metered usage by metric name. Usage reported with
+   * `/subscription/usage` is billed as a subscription add-on before each
+   * billing cycle ends.
+   */
+  usage?: Record<string, UsagePricing> | undefined;
   /**
    * Free trial configuration
    */
@@ -100,6 +190,14 @@ export type RazorpayPlan = {
          * Maps to Razorpay's `start_at` offset.
          */
         days: number;
+        /**
+         * Set to `false` to start the trial without a Razorpay subscription
+         * or payment authorization. The subscription is `trialing` until
+         * the customer upgrades, which creates the Razorpay subscription.
+         *
+         * @default true
+         */
+        requirePaymentMethod?: boolean | undefined;
         /**
          * A function that will be called when the trial starts.
          */
@@ -122,6 +220,21 @@ export type RazorpayPlan = {
           subscription: Subscription,
           ctx: GenericEndpointContext,
         ) => Promise<void>;
+        /**
+         * Days before `trialEnd` to call `onTrialWillEnd`, e.g. to send
+         * the pre-debit notice e-mandates require.
+         */
+        reminderDays?: number | undefined;
+        /**
+         * A function that will be called once, `reminderDays` before the
+         * trial ends, by the trial sweep (`/subscription/process-trials`).
+         */
+        onTrialWillEnd?: (
+          data: {
+            subscription: Subscription;
+          },
+          ctx: GenericEndpointContext,
+        ) => Promise<void>;
       }
     | undefined;
 };
@@ -156,100 +269,1008 @@ export interface Subscription {
    *
    * @default - userId
    */
-  referenceId: string;
+  referenceId: string;
+  /**
+   * Subscription status
+   */
+  status: RazorpaySubscriptionStatus;
+  /**
+   * The current billing cycle start date (Unix timestamp)
+   */
+  currentStart?: Date | undefined;
+  /**
+   * The current billing cycle end date (Unix timestamp)
+   */
+  currentEnd?: Date | undefined;
+  /**
+   * When the subscription ended (cancelled/completed)
+   */
+  endedAt?: Date | undefined;
+  /**
+   * Number of seats/quantity
+   */
+  quantity?: number | undefined;
+  /**
+   * Total number of billing cycles
+   */
+  totalCount?: number | undefined;
+  /**
+   * Number of billing cycles already charged
+   */
+  paidCount?: number | undefined;
+  /**
+   * Remaining billing cycles
+   */
+  remainingCount?: number | undefined;
+  /**
+   * When the subscription was cancelled
+   */
+  cancelledAt?: Date | undefined;
+  /**
+   * When the subscription was paused
+   */
+  pausedAt?: Date | undefined;
+  /**
+   * When a paused subscription is due to resume
+   */
+  resumeAt?: Date | undefined;
+  /**
+   * Number of pauses since `pauseWindowStart`
+   */
+  pauseCount?: number | undefined;
+  /**
+   * Start of the 365-day window `pauseCount` is counted in
+   */
+  pauseWindowStart?: Date | undefined;
+  /**
+   * Short URL for payment authorization
+   */
+  shortUrl?: string | undefined;
+  /**
+   * Whether cancellation is scheduled at cycle end
+   */
+  cancelAtCycleEnd?: boolean | undefined;
+  /**
+   * A field to group subscriptions so you can have multiple subscriptions
+   * for one reference id
+   */
+  groupId?: string | undefined;
+  /**
+   * The billing period (daily, weekly, monthly, quarterly, yearly)
+   */
+  billingPeriod?: string | undefined;
+  /**
+   * When the free trial started
+   */
+  trialStart?: Date | undefined;
+  /**
+   * When the free trial ends (or ended)
+   */
+  trialEnd?: Date | undefined;
+  /**
+   * Whether the trial-ending reminder (`onTrialWillEnd`) was sent
+   */
+  trialReminderSent?: boolean | undefined;
+  /**
+   * When the trial-ending reminder (`onTrialWillEnd`) was sent
+   */
+  trialReminderSentAt?: Date | undefined;
+  /**
+   * Custom metadata stored as JSON string.
+   * Use `JSON.parse()` to read and `JSON.stringify()` to write.
+   */
+  metadata?: string | undefined;
+  /**
+   * Last renewal date (set when a recurring charge succeeds after the first)
+   */
+  renewedAt?: Date | undefined;
+  /**
+   * Creation time of the last webhook event applied to this subscription.
+   * Older events are ignored.
+   */
+  lastEventAt?: Date | undefined;
+  /**
+   * When the first of the current run of failed payments happened.
+   * Cleared by the next successful charge.
+   */
+  pastDueSince?: Date | undefined;
+  /**
+   * Number of dunning reminders sent since `pastDueSince`
+   */
+  dunningRemindersSent?: number | undefined;
+  /**
+   * When dunning applied its final action
+   */
+  dunningEndedAt?: Date | undefined;
+  /**
+   * End of the last billing cycle whose usage was billed
+   */
+  usageBilledThrough?: Date | undefined;
+  /**
+   * The subscription this one continues, when created by a restore
+   */
+  previousSubscriptionId?: string | undefined;
+  /**
+   * The continuation subscription created by restoring this one
+   */
+  nextSubscriptionId?: string | undefined;
+  /**
+   * When the record was created
+   */
+  createdAt: Date;
+  /**
+   * When the record was last updated
+   */
+  updatedAt?: Date | undefined;
+}
+
+/**
+ * Razorpay webhook event payload structure
+ */
+export interface RazorpayWebhookEvent {
+  entity: "event";
+  account_id: string;
+  event: string;
+  contains: string[];
+  payload: {
+    subscription?: {
+      entity: RazorpaySubscriptionEntity;
+    };
+    payment?: {
+      entity: RazorpayPaymentEntity;
+    };
+    invoice?: {
+      entity: RazorpayInvoiceEntity;
+    };
+    refund?: {
+      entity: RazorpayRefundEntity;
+    };
+    dispute?: {
+      entity: RazorpayDisputeEntity;
+    };
+  };
+  created_at: number;
+}
+
+/**
+ * Razorpay payment status lifecycle.
+ *
+ * @see https://razorpay.com/docs/payments/payments/#payment-life-cycle
+ */
+export type RazorpayPaymentStatus =
+  | "created"
+  | "authorized"
+  | "captured"
+  | "refunded"
+  | "failed";
+
+/**
+ * Razorpay Payment response entity
+ */
+export interface RazorpayPaymentEntity {
+  id: string;
+  entity: "payment";
+  amount: number;
+  currency: string;
+  status: RazorpayPaymentStatus;
+  order_id: string | null;
+  invoice_id: string | null;
+  international: boolean;
+  method: string;
+  amount_refunded: number;
+  refund_status: string | null;
+  captured: boolean;
+  description: string | null;
+  card_id: string | null;
+  bank: string | null;
+  wallet: string | null;
+  vpa: string | null;
+  email: string;
+  contact: string;
+  customer_id?: string | null;
+  token_id?: string | null;
+  notes: Record<string, string> | string[];
+  fee: number | null;
+  tax: number | null;
+  error_code: string | null;
+  error_description: string | null;
+  error_source?: string | null;
+  error_step?: string | null;
+  error_reason?: string | null;
+  created_at: number;
+}
+
+export interface Payment {
+  /**
+   * Database identifier
+   */
+  id: string;
+  /**
+   * Razorpay payment id
+   */
+  razorpayPaymentId: string;
+  /**
+   * Razorpay order id, if the payment was made against an order
+   */
+  razorpayOrderId?: string | undefined;
+  /**
+   * Razorpay invoice id, if the payment settled an invoice
+   */
+  razorpayInvoiceId?: string | undefined;
+  /**
+   * Razorpay subscription id, if the payment belongs to a subscription
+   */
+  razorpaySubscriptionId?: string | undefined;
+  /**
+   * Razorpay customer id
+   */
+  razorpayCustomerId?: string | undefined;
+  /**
+   * Local subscription id, if the payment belongs to a subscription
+   */
+  subscriptionId?: string | undefined;
+  /**
+   * To what reference id the payment belongs to
+   */
+  referenceId?: string | undefined;
+  /**
+   * Amount in the smallest currency unit (e.g. paise)
+   */
+  amount: number;
+  /**
+   * ISO currency code
+   */
+  currency: string;
+  /**
+   * Payment status
+   */
+  status: RazorpayPaymentStatus;
+  /**
+   * Payment method (card, upi, netbanking, wallet, emandate, ...)
+   */
+  method?: string | undefined;
+  /**
+   * Customer email used for the payment
+   */
+  email?: string | undefined;
+  /**
+   * Customer phone number used for the payment
+   */
+  contact?: string | undefined;
+  /**
+   * Razorpay error code for failed payments
+   */
+  errorCode?: string | undefined;
+  /**
+   * Razorpay error description for failed payments
+   */
+  errorDescription?: string | undefined;
+  /**
+   * When the payment was captured
+   */
+  capturedAt?: Date | undefined;
+  /**
+   * When the payment was created on Razorpay
+   */
+  createdAt: Date;
+  /**
+   * When the record was last updated
+   */
+  updatedAt?: Date | undefined;
+}
+
+/**
+ * Razorpay invoice status lifecycle.
+ *
+ * @see https://razorpay.com/docs/payments/invoices/states/
+ */
+export type RazorpayInvoiceStatus =
+  | "draft"
+  | "issued"
+  | "partially_paid"
+  | "paid"
+  | "cancelled"
+  | "expired"
+  | "deleted";
+
+/**
+ * Razorpay Invoice response entity
+ */
+export interface RazorpayInvoiceEntity {
+  id: string;
+  entity: "invoice";
+  type: string;
+  invoice_number: string | null;
+  customer_id: string | null;
+  order_id: string | null;
+  subscription_id?: string | null;
+  payment_id: string | null;
+  status: RazorpayInvoiceStatus;
+  amount: number;
+  amount_paid: number;
+  amount_due: number;
+  gross_amount?: number;
+  tax_amount?: number;
+  currency: string;
+  description: string | null;
+  notes: Record<string, string> | string[];
+  short_url: string | null;
+  billing_start: number | null;
+  billing_end: number | null;
+  issued_at: number | null;
+  paid_at: number | null;
+  cancelled_at: number | null;
+  expired_at: number | null;
+  date: number | null;
+  created_at: number;
+}
+
+export interface Invoice {
+  /**
+   * Database identifier
+   */
+  id: string;
+  /**
+   * Razorpay invoice id
+   */
+  razorpayInvoiceId: string;
+  /**
+   * Human readable invoice number
+   */
+  invoiceNumber?: string | undefined;
+  /**
+   * Razorpay subscription id, if the invoice was raised for a subscription
+   */
+  razorpaySubscriptionId?: string | undefined;
+  /**
+   * Razorpay customer id
+   */
+  razorpayCustomerId?: string | undefined;
+  /**
+   * Razorpay payment id that settled the invoice
+   */
+  razorpayPaymentId?: string | undefined;
+  /**
+   * Razorpay order id of the invoice
+   */
+  razorpayOrderId?: string | undefined;
+  /**
+   * Local subscription id, if the invoice was raised for a subscription
+   */
+  subscriptionId?: string | undefined;
+  /**
+   * To what reference id the invoice belongs to
+   */
+  referenceId?: string | undefined;
+  /**
+   * Invoice status
+   */
+  status: RazorpayInvoiceStatus;
+  /**
+   * Total amount in the smallest currency unit (e.g. paise)
+   */
+  amount: number;
+  /**
+   * Amount paid so far
+   */
+  amountPaid?: number | undefined;
+  /**
+   * Amount still due
+   */
+  amountDue?: number | undefined;
+  /**
+   * Tax included in the amount
+   */
+  taxAmount?: number | undefined;
+  /**
+   * ISO currency code
+   */
+  currency: string;
+  /**
+   * Short URL of the hosted invoice
+   */
+  shortUrl?: string | undefined;
+  /**
+   * Start of the billing period covered by the invoice
+   */
+  billingStart?: Date | undefined;
+  /**
+   * End of the billing period covered by the invoice
+   */
+  billingEnd?: Date | undefined;
+  /**
+   * When the invoice was issued
+   */
+  issuedAt?: Date | undefined;
+  /**
+   * When the invoice was paid
+   */
+  paidAt?: Date | undefined;
+  /**
+   * When the invoice expired
+   */
+  expiredAt?: Date | undefined;
+  /**
+   * When the invoice was created on Razorpay
+   */
+  createdAt: Date;
+  /**
+   * When the record was last updated
+   */
+  updatedAt?: Date | undefined;
+}
+
+/**
+ * Razorpay refund status lifecycle.
+ *
+ * @see https://razorpay.com/docs/payments/refunds/#refund-states
+ */
+export type RazorpayRefundStatus = "pending" | "processed" | "failed";
+
+/**
+ * Refund speed. `optimum` attempts an instant refund and falls back
+ * to `normal` when the instant refund is not possible.
+ */
+export type RazorpayRefundSpeed = "normal" | "optimum";
+
+/**
+ * Razorpay Refund response entity
+ */
+export interface RazorpayRefundEntity {
+  id: string;
+  entity: "refund";
+  amount: number;
+  currency: string;
+  payment_id: string;
+  notes: Record<string, string> | string[];
+  receipt: string | null;
+  acquirer_data?: Record<string, unknown>;
+  batch_id?: string | null;
+  status: RazorpayRefundStatus;
+  speed_requested: RazorpayRefundSpeed;
+  speed_processed?: "normal" | "instant" | null;
+  created_at: number;
+}
+
+export interface Refund {
+  /**
+   * Database identifier
+   */
+  id: string;
+  /**
+   * Razorpay refund id
+   */
+  razorpayRefundId: string;
+  /**
+   * Razorpay payment id the refund was issued against
+   */
+  razorpayPaymentId: string;
+  /**
+   * Local payment id the refund was issued against
+   */
+  paymentId?: string | undefined;
+  /**
+   * Local subscription id of the refunded payment
+   */
+  subscriptionId?: string | undefined;
+  /**
+   * To what reference id the refunded payment belongs to
+   */
+  referenceId?: string | undefined;
+  /**
+   * Refunded amount in the smallest currency unit (e.g. paise)
+   */
+  amount: number;
+  /**
+   * ISO currency code
+   */
+  currency: string;
+  /**
+   * Refund status
+   */
+  status: RazorpayRefundStatus;
+  /**
+   * Speed requested when the refund was created
+   */
+  speedRequested?: RazorpayRefundSpeed | undefined;
+  /**
+   * Speed the refund was actually processed at
+   */
+  speedProcessed?: string | undefined;
+  /**
+   * Receipt number passed when the refund was created
+   */
+  receipt?: string | undefined;
+  /**
+   * When the refund was processed
+   */
+  processedAt?: Date | undefined;
+  /**
+   * When the refund was created on Razorpay
+   */
+  createdAt: Date;
+  /**
+   * When the record was last updated
+   */
+  updatedAt?: Date | undefined;
+}
+
+/**
+ * Razorpay dispute status lifecycle.
+ *
+ * @see https://razorpay.com/docs/payments/disputes/#dispute-lifecycle
+ */
+export type RazorpayDisputeStatus =
+  | "open"
+  | "under_review"
+  | "won"
+  | "lost"
+  | "closed";
+
+/**
+ * Razorpay dispute phase.
+ */
+export type RazorpayDisputePhase =
+  | "retrieval"
+  | "chargeback"
+  | "pre_arbitration"
+  | "arbitration"
+  | "fraud";
+
+/**
+ * Razorpay Dispute response entity
+ */
+export interface RazorpayDisputeEntity {
+  id: string;
+  entity: "dispute";
+  payment_id: string;
+  amount: number;
+  currency: string;
+  amount_deducted: number;
+  reason_code: string;
+  reason_description?: string | null;
+  respond_by: number | null;
+  status: RazorpayDisputeStatus;
+  phase: RazorpayDisputePhase;
+  created_at: number;
+}
+
+/**
+ * What to do with the linked subscription when a dispute is lost.
+ *
+ * - `none` — leave the subscription unchanged
+ * - `pause` — pause the subscription on Razorpay
+ * - `cancel` — cancel the subscription on Razorpay immediately
+ */
+export type DisputeLostPolicy = "none" | "pause" | "cancel";
+
+/**
+ * What to do with a subscription whose payment is still failing when the
+ * dunning grace period ends.
+ *
+ * - `none` — leave the subscription unchanged
+ * - `pause` — mark the subscription `paused` locally. Razorpay can't pause a
+ *   subscription with a failed payment, so a later successful charge makes
+ *   it active again.
+ * - `cancel` — cancel the subscription on Razorpay immediately
+ */
+export type DunningFinalAction = "none" | "pause" | "cancel";
+
+/**
+ * Dunning for subscriptions whose recurring payment failed (`pending` or
+ * `halted`). Reminders and the final action are run by the dunning sweep
+ * (`/subscription/process-dunning`).
+ */
+export type DunningOptions = {
+  /**
+   * Days after the first failed payment during which a `pending`
+   * subscription still counts as usable
+   *
+   * @default 0
+   */
+  gracePeriodDays?: number | undefined;
+  /**
+   * Days after the first failed payment on which `onPaymentReminder`
+   * is called
+   *
+   * @default [1, 3, 7]
+   */
+  reminderDays?: number[] | undefined;
+  /**
+   * A callback to remind the customer to fix their payment method, with a
+   * link to Razorpay's hosted page for the subscription
+   */
+  onPaymentReminder?:
+    | ((
+        data: {
+          subscription: Subscription;
+          daysPastDue: number;
+          paymentLink: string | null;
+        },
+        ctx: GenericEndpointContext,
+      ) => Promise<void>)
+    | undefined;
+  /**
+   * What to do once the grace period is over
+   *
+   * @default "none"
+   */
+  finalAction?: DunningFinalAction | undefined;
+  /**
+   * A callback to run after the final action is applied
+   */
+  onDunningEnded?:
+    | ((
+        data: {
+          subscription: Subscription;
+          action: DunningFinalAction;
+        },
+        ctx: GenericEndpointContext,
+      ) => Promise<void>)
+    | undefined;
+};
+
+/**
+ * Billing of metered usage, run by the usage sweep
+ * (`/subscription/bill-usage`).
+ */
+export type UsageBillingOptions = {
+  /**
+   * How many hours before a billing cycle ends its usage is billed, so the
+   * add-ons land on the invoice for the next charge
+   *
+   * @default 24
+   */
+  leadHours?: number | undefined;
+  /**
+   * A callback to run after a subscription's usage is billed
+   */
+  onUsageBilled?:
+    | ((
+        data: {
+          subscription: Subscription;
+          addons: RazorpayAddonEntity[];
+          records: UsageRecord[];
+        },
+        ctx: GenericEndpointContext,
+      ) => Promise<void>)
+    | undefined;
+};
+
+export interface Dispute {
+  /**
+   * Database identifier
+   */
+  id: string;
+  /**
+   * Razorpay dispute id
+   */
+  razorpayDisputeId: string;
+  /**
+   * Razorpay payment id under dispute
+   */
+  razorpayPaymentId: string;
+  /**
+   * Local payment id under dispute
+   */
+  paymentId?: string | undefined;
+  /**
+   * Local subscription id of the disputed payment
+   */
+  subscriptionId?: string | undefined;
+  /**
+   * The reference id the disputed payment belongs to
+   */
+  referenceId?: string | undefined;
+  /**
+   * Disputed amount in the smallest currency unit
+   */
+  amount: number;
+  /**
+   * Amount deducted from the settlement balance
+   */
+  amountDeducted?: number | undefined;
+  /**
+   * Currency code
+   */
+  currency: string;
+  /**
+   * Network reason code for the dispute
+   */
+  reasonCode?: string | undefined;
+  /**
+   * Human-readable reason for the dispute
+   */
+  reasonDescription?: string | undefined;
+  /**
+   * Dispute status
+   */
+  status: RazorpayDisputeStatus;
+  /**
+   * Dispute phase
+   */
+  phase?: RazorpayDisputePhase | undefined;
+  /**
+   * Deadline for submitting evidence
+   */
+  respondBy?: Date | undefined;
+  /**
+   * When the dispute was won, lost or closed
+   */
+  resolvedAt?: Date | undefined;
+  /**
+   * When the dispute was created on Razorpay
+   */
+  createdAt: Date;
+  /**
+   * When the record was last updated
+   */
+  updatedAt?: Date | undefined;
+}
+
+/**
+ * Billing period of a Razorpay plan.
+ */
+export type RazorpayPlanPeriod = "daily" | "weekly" | "monthly" | "yearly";
+
+/**
+ * Pricing of a plan as used in a plan change preview. Amounts are in the
+ * smallest currency unit and already multiplied by the quantity.
+ */
+export interface PlanChangePricing {
+  /**
+   * The plan name
+   */
+  plan: string;
+  /**
+   * Razorpay plan id
+   */
+  razorpayPlanId: string;
+  /**
+   * Amount per billing cycle
+   */
+  amount: number;
+  /**
+   * Currency code
+   */
+  currency: string;
+  /**
+   * Number of units billed
+   */
+  quantity: number;
+  period: RazorpayPlanPeriod;
+  interval: number;
+}
+
+/**
+ * What a plan change would cost, as returned by
+ * `/subscription/preview-change`.
+ */
+export interface SubscriptionChangePreview {
+  /**
+   * `new` when there is no subscription to change. Plans are compared by
+   * their monthly-equivalent price.
+   */
+  changeType: "new" | "upgrade" | "downgrade" | "lateral";
+  /**
+   * The plan being changed from, if any
+   */
+  currentPlan: PlanChangePricing | null;
+  /**
+   * The plan being changed to
+   */
+  targetPlan: PlanChangePricing;
+  /**
+   * When Razorpay would apply the change
+   */
+  scheduleChangeAt: "now" | "cycle_end";
+  /**
+   * When the target plan takes effect
+   */
+  effectiveAt: Date;
+  /**
+   * Estimated prorated amount for switching now: positive is charged,
+   * negative is credited. Zero for `cycle_end` changes and new
+   * subscriptions. Razorpay computes the final amount.
+   */
+  proratedAmount: number;
+  /**
+   * Estimated amount charged when the change is made
+   */
+  amountDueNow: number;
+  /**
+   * When the target plan is next charged at its full price
+   */
+  nextChargeAt: Date | null;
+  /**
+   * Amount of that charge
+   */
+  nextChargeAmount: number;
+  currency: string;
+}
+
+/**
+ * What a reference is entitled to, as returned by
+ * `/subscription/entitlements`.
+ */
+export interface Entitlements {
+  referenceId: string;
+  /**
+   * Names of the plans the entitlements come from
+   */
+  plans: string[];
+  /**
+   * The subscriptions that grant them: the newest usable subscription of
+   * each plan group
+   */
+  subscriptions: Subscription[];
+  /**
+   * The `limits` of those plans, merged. Numbers take the largest value,
+   * booleans are true if any plan grants them and arrays are combined.
+   * Other values come from the newest subscription.
+   */
+  limits: Record<string, unknown>;
+}
+
+/**
+ * Usage of a metered metric, reported with `/subscription/usage`.
+ */
+export interface UsageRecord {
+  /**
+   * Database identifier
+   */
+  id: string;
+  referenceId: string;
+  /**
+   * Local subscription the usage is billed to
+   */
+  subscriptionId: string;
+  metric: string;
+  quantity: number;
+  /**
+   * Caller-supplied key that makes reporting the same usage twice a no-op
+   */
+  idempotencyKey?: string | undefined;
+  /**
+   * End of the billing cycle the usage was reported in. Unset when the
+   * subscription had no running cycle.
+   */
+  cycleEnd?: Date | undefined;
+  /**
+   * Whether the usage was billed
+   */
+  billed?: boolean | undefined;
+  /**
+   * When the usage was billed
+   */
+  billedAt?: Date | undefined;
+  /**
+   * Razorpay add-on the usage was billed on. Unset for usage within the
+   * free allowance.
+   */
+  razorpayAddonId?: string | undefined;
+  createdAt: Date;
+}
+
+/**
+ * How the webhook endpoint responds when processing an event fails.
+ */
+export type WebhookErrorMode = "acknowledge" | "retry";
+
+/**
+ * Processing outcome recorded for a webhook event.
+ *
+ * - `processing` — a delivery has claimed the event and is running its
+ *   handlers
+ * - `processed` — the event was dispatched to a handler
+ * - `failed` — processing threw; a redelivery will be processed again
+ * - `ignored` — no handler exists for the event type
+ */
+export type WebhookEventStatus =
+  | "processing"
+  | "processed"
+  | "failed"
+  | "ignored";
+
+/**
+ * Ledger entry for a received Razorpay webhook event,
+ * keyed on the `x-razorpay-event-id` header.
+ */
+export interface WebhookEventRecord {
+  /**
+   * Database identifier
+   */
+  id: string;
+  /**
+   * Razorpay event ID (`x-razorpay-event-id` header)
+   */
+  eventId: string;
   /**
-   * Subscription status
+   * Event type (e.g. `subscription.charged`)
    */
-  status: RazorpaySubscriptionStatus;
+  event: string;
   /**
-   * The current billing cycle start date (Unix timestamp)
+   * Razorpay account the event belongs to
    */
-  currentStart?: Date | undefined;
+  accountId?: string | undefined;
   /**
-   * The current billing cycle end date (Unix timestamp)
+   * Processing outcome
    */
-  currentEnd?: Date | undefined;
+  status: WebhookEventStatus;
   /**
-   * When the subscription ended (cancelled/completed)
+   * Error message of the last failed attempt
    */
-  endedAt?: Date | undefined;
+  error?: string | undefined;
   /**
-   * Number of seats/quantity
+   * When the event was first received
    */
-  quantity?: number | undefined;
+  receivedAt: Date;
   /**
-   * Total number of billing cycles
+   * When processing was last started
    */
-  totalCount?: number | undefined;
+  attemptedAt?: Date | undefined;
   /**
-   * Number of billing cycles already charged
+   * When processing last finished
    */
-  paidCount?: number | undefined;
+  processedAt?: Date | undefined;
+}
+
+/**
+ * Status of a dead-lettered webhook event.
+ *
+ * - `pending` — processing failed and has not succeeded since
+ * - `replayed` — a later replay or redelivery succeeded
+ */
+export type WebhookDeadLetterStatus = "pending" | "replayed";
+
+/**
+ * A webhook event whose processing failed, stored so it can be replayed.
+ */
+export interface WebhookDeadLetter {
   /**
-   * Remaining billing cycles
+   * Database identifier
    */
-  remainingCount?: number | undefined;
+  id: string;
   /**
-   * When the subscription was cancelled
+   * Razorpay event ID (`x-razorpay-event-id` header)
    */
-  cancelledAt?: Date | undefined;
+  eventId?: string | undefined;
   /**
-   * When the subscription was paused
+   * Event type (e.g. `subscription.charged`)
    */
-  pausedAt?: Date | undefined;
+  event: string;
   /**
-   * Short URL for payment authorization
+   * Raw request body as received
    */
-  shortUrl?: string | undefined;
+  payload: string;
   /**
-   * Whether cancellation is scheduled at cycle end
+   * JSON-encoded Razorpay request headers
    */
-  cancelAtCycleEnd?: boolean | undefined;
+  headers?: string | undefined;
   /**
-   * A field to group subscriptions so you can have multiple subscriptions
-   * for one reference id
+   * Error message of the last failed attempt
    */
-  groupId?: string | undefined;
+  error: string;
   /**
-   * The billing period (daily, weekly, monthly, quarterly, yearly)
+   * Number of failed processing attempts
    */
-  billingPeriod?: string | undefined;
+  attempts: number;
   /**
-   * When the free trial started
+   * Replay status
    */
-  trialStart?: Date | undefined;
+  status: WebhookDeadLetterStatus;
   /**
-   * When the free trial ends (or ended)
+   * When processing last failed
    */
-  trialEnd?: Date | undefined;
+  lastAttemptAt: Date;
   /**
-   * Custom metadata stored as JSON string.
-   * Use `JSON.parse()` to read and `JSON.stringify()` to write.
+   * When a replay or redelivery succeeded
    */
-  metadata?: string | undefined;
+  replayedAt?: Date | undefined;
   /**
-   * Last renewal date (set when a recurring charge succeeds after the first)
+   * When the event first failed
    */
-  renewedAt?: Date | undefined;
-}
-
-/**
- * Razorpay webhook event payload structure
- */
-export interface RazorpayWebhookEvent {
-  entity: "event";
-  account_id: string;
-  event: string;
-  contains: string[];
-  payload: {
-    subscription?: {
-      entity: RazorpaySubscriptionEntity;
-    };
-    payment?: {
-      entity: Record<string, unknown>;
-    };
-  };
-  created_at: number;
+  createdAt: Date;
 }
 
 /**
@@ -287,6 +1308,339 @@ export interface RazorpaySubscriptionEntity {
   payment_method?: string;
 }
 
+/**
+ * Razorpay subscription add-on entity, charged once on the next invoice
+ */
+export interface RazorpayAddonEntity {
+  id: string;
+  entity: "addon";
+  item: {
+    id: string;
+    name: string;
+    amount: number;
+    currency: string;
+    description: string | null;
+  };
+  quantity: number;
+  created_at: number;
+  subscription_id: string;
+  invoice_id: string | null;
+}
+
+/**
+ * Razorpay Order response entity
+ */
+export interface RazorpayOrderEntity {
+  id: string;
+  entity: "order";
+  amount: number;
+  amount_paid: number;
+  amount_due: number;
+  currency: string;
+  receipt: string | null;
+  offer_id: string | null;
+  status: "created" | "attempted" | "paid";
+  attempts: number;
+  notes: Record<string, string> | string[];
+  created_at: number;
+}
+
+/**
+ * Razorpay Payment Link response entity
+ */
+export interface RazorpayPaymentLinkEntity {
+  id: string;
+  entity?: "payment_link";
+  amount: number;
+  amount_paid: number;
+  currency: string;
+  status: "created" | "partially_paid" | "paid" | "expired" | "cancelled";
+  order_id: string | null;
+  reference_id: string | null;
+  short_url: string;
+  description: string | null;
+  customer: {
+    name?: string;
+    email?: string;
+    contact?: string;
+  } | null;
+  notes: Record<string, string> | string[] | null;
+  expire_by: number | null;
+  created_at: number;
+}
+
+/**
+ * Razorpay QR Code response entity
+ */
+export interface RazorpayQrCodeEntity {
+  id: string;
+  entity: "qr_code";
+  name: string | null;
+  usage: "single_use" | "multiple_use";
+  type: "upi_qr" | "bharat_qr";
+  image_url: string;
+  payment_amount: number | null;
+  status: "active" | "closed";
+  description: string | null;
+  fixed_amount: boolean;
+  payments_amount_received: number;
+  payments_count_received: number;
+  notes: Record<string, string> | string[];
+  customer_id: string | null;
+  close_by: number | null;
+  closed_at: number | null;
+  close_reason: string | null;
+  created_at: number;
+}
+
+/**
+ * Razorpay Virtual Account response entity
+ */
+export interface RazorpayVirtualAccountEntity {
+  id: string;
+  entity: "virtual_account";
+  name: string | null;
+  status: "active" | "closed";
+  description: string | null;
+  amount_expected: number | null;
+  amount_paid: number;
+  customer_id: string | null;
+  receivers: Record<string, unknown>[];
+  notes: Record<string, string> | string[];
+  close_by: number | null;
+  closed_at: number | null;
+  created_at: number;
+}
+
+/**
+ * Razorpay Settlement response entity
+ */
+export interface RazorpaySettlementEntity {
+  id: string;
+  entity: "settlement";
+  amount: number;
+  status: "created" | "processed" | "failed";
+  fees: number;
+  tax: number;
+  utr: string | null;
+  created_at: number;
+}
+
+/**
+ * Razorpay Route Transfer response entity
+ */
+export interface RazorpayTransferEntity {
+  id: string;
+  entity: "transfer";
+  status: "created" | "pending" | "processed" | "failed" | "reversed";
+  source: string;
+  recipient: string;
+  amount: number;
+  currency: string;
+  amount_reversed: number;
+  notes: Record<string, string> | string[];
+  on_hold: boolean;
+  on_hold_until: number | null;
+  recipient_settlement_id: string | null;
+  created_at: number;
+}
+
+/**
+ * Razorpay saved card / recurring token entity
+ */
+export interface RazorpayTokenEntity {
+  id: string;
+  entity: "token";
+  token: string;
+  method: string;
+  status?: "initiated" | "confirmed" | "rejected" | "paused" | "cancelled";
+  recurring: boolean;
+  customer_id?: string | null;
+  expired_at: number | null;
+  created_at: number;
+}
+
+/**
+ * Razorpay payment downtime entity
+ */
+export interface RazorpayDowntimeEntity {
+  id: string;
+  entity: "payment.downtime";
+  method: string;
+  begin: number;
+  end: number | null;
+  status: "scheduled" | "started" | "resolved" | "cancelled";
+  scheduled: boolean;
+  severity: "high" | "medium" | "low";
+  instrument: Record<string, string>;
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * Razorpay fund account validation entity
+ */
+export interface RazorpayFundAccountValidationEntity {
+  id: string;
+  entity: "fund_account.validation";
+  fund_account: Record<string, unknown>;
+  status: "created" | "completed" | "failed";
+  amount: number;
+  currency: string;
+  results: Record<string, unknown>;
+  created_at: number;
+}
+
+/** @internal */
+type Wrapped<T> = { entity: T };
+
+/** @internal */
+type PaymentPayload = { payment: Wrapped<RazorpayPaymentEntity> };
+
+/** @internal */
+type SubscriptionPayload = {
+  subscription: Wrapped<RazorpaySubscriptionEntity>;
+  payment?: Wrapped<RazorpayPaymentEntity>;
+};
+
+/** @internal */
+type DisputePayload = {
+  payment: Wrapped<RazorpayPaymentEntity>;
+  dispute: Wrapped<RazorpayDisputeEntity>;
+};
+
+/**
+ * Payload of every documented Razorpay webhook event, keyed by event name.
+ *
+ * @see https://razorpay.com/docs/webhooks/supported-events/
+ */
+export interface RazorpayWebhookEventMap {
+  "payment.authorized": PaymentPayload;
+  "payment.captured": PaymentPayload;
+  "payment.failed": PaymentPayload;
+  "payment.dispute.created": DisputePayload;
+  "payment.dispute.won": DisputePayload;
+  "payment.dispute.lost": DisputePayload;
+  "payment.dispute.closed": DisputePayload;
+  "payment.dispute.under_review": DisputePayload;
+  "payment.dispute.action_required": DisputePayload;
+  "payment.downtime.started": {
+    "payment.downtime": Wrapped<RazorpayDowntimeEntity>;
+  };
+  "payment.downtime.updated": {
+    "payment.downtime": Wrapped<RazorpayDowntimeEntity>;
+  };
+  "payment.downtime.resolved": {
+    "payment.downtime": Wrapped<RazorpayDowntimeEntity>;
+  };
+  "order.paid": PaymentPayload & { order: Wrapped<RazorpayOrderEntity> };
+  "invoice.paid": PaymentPayload & {
+    order: Wrapped<RazorpayOrderEntity>;
+    invoice: Wrapped<RazorpayInvoiceEntity>;
+  };
+  "invoice.partially_paid": PaymentPayload & {
+    order: Wrapped<RazorpayOrderEntity>;
+    invoice: Wrapped<RazorpayInvoiceEntity>;
+  };
+  "invoice.expired": {
+    order?: Wrapped<RazorpayOrderEntity>;
+    invoice: Wrapped<RazorpayInvoiceEntity>;
+  };
+  "subscription.authenticated": SubscriptionPayload;
+  "subscription.activated": SubscriptionPayload;
+  "subscription.charged": SubscriptionPayload;
+  "subscription.pending": SubscriptionPayload;
+  "subscription.halted": SubscriptionPayload;
+  "subscription.cancelled": SubscriptionPayload;
+  "subscription.completed": SubscriptionPayload;
+  "subscription.paused": SubscriptionPayload;
+  "subscription.resumed": SubscriptionPayload;
+  "subscription.updated": SubscriptionPayload;
+  "refund.created": PaymentPayload & { refund: Wrapped<RazorpayRefundEntity> };
+  "refund.processed": PaymentPayload & {
+    refund: Wrapped<RazorpayRefundEntity>;
+  };
+  "refund.failed": PaymentPayload & { refund: Wrapped<RazorpayRefundEntity> };
+  "refund.speed_changed": PaymentPayload & {
+    refund: Wrapped<RazorpayRefundEntity>;
+  };
+  "payment_link.paid": PaymentPayload & {
+    order: Wrapped<RazorpayOrderEntity>;
+    payment_link: Wrapped<RazorpayPaymentLinkEntity>;
+  };
+  "payment_link.partially_paid": PaymentPayload & {
+    order: Wrapped<RazorpayOrderEntity>;
+    payment_link: Wrapped<RazorpayPaymentLinkEntity>;
+  };
+  "payment_link.expired": {
+    payment_link: Wrapped<RazorpayPaymentLinkEntity>;
+  };
+  "payment_link.cancelled": {
+    payment_link: Wrapped<RazorpayPaymentLinkEntity>;
+  };
+  "qr_code.created": { qr_code: Wrapped<RazorpayQrCodeEntity> };
+  "qr_code.credited": PaymentPayload & {
+    qr_code: Wrapped<RazorpayQrCodeEntity>;
+  };
+  "qr_code.closed": { qr_code: Wrapped<RazorpayQrCodeEntity> };
+  "virtual_account.created": {
+    virtual_account: Wrapped<RazorpayVirtualAccountEntity>;
+  };
+  "virtual_account.credited": PaymentPayload & {
+    virtual_account: Wrapped<RazorpayVirtualAccountEntity>;
+    bank_transfer?: Wrapped<Record<string, unknown>>;
+    upi_transfer?: Wrapped<Record<string, unknown>>;
+  };
+  "virtual_account.closed": {
+    virtual_account: Wrapped<RazorpayVirtualAccountEntity>;
+  };
+  "settlement.processed": { settlement: Wrapped<RazorpaySettlementEntity> };
+  "transfer.processed": { transfer: Wrapped<RazorpayTransferEntity> };
+  "transfer.failed": { transfer: Wrapped<RazorpayTransferEntity> };
+  "token.confirmed": { token: Wrapped<RazorpayTokenEntity> };
+  "token.rejected": { token: Wrapped<RazorpayTokenEntity> };
+  "token.paused": { token: Wrapped<RazorpayTokenEntity> };
+  "token.cancelled": { token: Wrapped<RazorpayTokenEntity> };
+  "fund_account.validation.completed": {
+    "fund_account.validation": Wrapped<RazorpayFundAccountValidationEntity>;
+  };
+  "fund_account.validation.failed": {
+    "fund_account.validation": Wrapped<RazorpayFundAccountValidationEntity>;
+  };
+}
+
+export type RazorpayWebhookEventName = keyof RazorpayWebhookEventMap;
+
+/**
+ * A webhook event whose payload is typed by its event name. A union of
+ * event names gives a union discriminated on `event`.
+ */
+export type RazorpayTypedWebhookEvent<
+  E extends RazorpayWebhookEventName = RazorpayWebhookEventName,
+> = {
+  [K in E]: Omit<RazorpayWebhookEvent, "event" | "payload"> & {
+    event: K;
+    payload: RazorpayWebhookEventMap[K];
+  };
+}[E];
+
+/**
+ * Handler for a single webhook event type.
+ *
+ * Replaces the built-in handler for the event, if there is one. Call
+ * `runDefault` to run the built-in handler as well; it resolves to `false`
+ * when the plugin has no handler for the event.
+ */
+export type RazorpayWebhookHandler<E extends RazorpayWebhookEventName> = (
+  event: RazorpayTypedWebhookEvent<E>,
+  ctx: GenericEndpointContext,
+  helpers: { runDefault: () => Promise<boolean> },
+) => Promise<void> | void;
+
+export type RazorpayWebhookHandlers = {
+  [E in RazorpayWebhookEventName]?: RazorpayWebhookHandler<E> | undefined;
+};
+
 export type SubscriptionOptions = {
   /**
    * List of plans
@@ -417,6 +1771,21 @@ export type SubscriptionOptions = {
         subscription: Subscription;
       }) => Promise<void>)
     | undefined;
+  /**
+   * What to do with the linked subscription when a dispute on one of
+   * its payments is lost
+   *
+   * @default "none"
+   */
+  disputeLostPolicy?: DisputeLostPolicy | undefined;
+  /**
+   * Reminders, grace period and final action for failed payments
+   */
+  dunning?: DunningOptions | undefined;
+  /**
+   * Billing of metered usage priced with `RazorpayPlan.usage`
+   */
+  usageBilling?: UsageBillingOptions | undefined;
   /**
    * A function to check if the reference id is valid
    * and belongs to the user
@@ -455,9 +1824,28 @@ export interface RazorpayOptions {
   /**
    * Razorpay Webhook Secret
    *
-   * @description Used for HMAC-SHA256 signature verification
+   * @description Used for HMAC-SHA256 signature verification. Pass several
+   * secrets, or a function returning them, to accept both the old and the
+   * new secret while rotating it.
+   */
+  razorpayWebhookSecret: RazorpayWebhookSecret;
+  /**
+   * A function to check if the current user may perform an
+   * administrative action (e.g. issuing refunds).
+   *
+   * Admin endpoints reject HTTP requests when this is not defined.
+   * Calls made directly on the server (`auth.api.*`) skip this check.
    */
-  razorpayWebhookSecret: string;
+  authorizeAdmin?:
+    | ((
+        data: {
+          user: User & Record<string, any>;
+          session: Session & Record<string, any>;
+          action: AdminAction;
+        },
+        ctx: GenericEndpointContext,
+      ) => Promise<boolean>)
+    | undefined;
   /**
    * Enable customer creation when a user signs up
    */
@@ -542,6 +1930,152 @@ export interface RazorpayOptions {
           | undefined;
       }
     | undefined;
+  /**
+   * A callback to run after a payment is captured
+   */
+  onPaymentCaptured?:
+    | ((
+        data: {
+          event: RazorpayWebhookEvent;
+          razorpayPayment: RazorpayPaymentEntity;
+          payment: Payment;
+        },
+        ctx: GenericEndpointContext,
+      ) => Promise<void>)
+    | undefined;
+  /**
+   * A callback to run after a payment fails
+   */
+  onPaymentFailed?:
+    | ((
+        data: {
+          event: RazorpayWebhookEvent;
+          razorpayPayment: RazorpayPaymentEntity;
+          payment: Payment;
+        },
+        ctx: GenericEndpointContext,
+      ) => Promise<void>)
+    | undefined;
+  /**
+   * A callback to run when a customer disputes a payment
+   */
+  onDisputeCreated?:
+    | ((
+        data: {
+          event: RazorpayWebhookEvent;
+          razorpayDispute: RazorpayDisputeEntity;
+          dispute: Dispute;
+        },
+        ctx: GenericEndpointContext,
+      ) => Promise<void>)
+    | undefined;
+  /**
+   * A callback to run when a dispute is lost
+   */
+  onDisputeLost?:
+    | ((
+        data: {
+          event: RazorpayWebhookEvent;
+          razorpayDispute: RazorpayDisputeEntity;
+          dispute: Dispute;
+        },
+        ctx: GenericEndpointContext,
+      ) => Promise<void>)
+    | undefined;
+  /**
+   * Webhook processing
+   */
+  webhook?:
+    | {
+        /**
+         * What to do when a handler, the database or one of your callbacks
+         * fails while processing a verified event.
+         *
+         * - `acknowledge` — log the error and respond with 200, so Razorpay
+         *   does not deliver the event again
+         * - `retry` — respond with a 500, so Razorpay retries the delivery
+         *   on its retry schedule
+         *
+         * Failures are recorded in the webhook event ledger either way.
+         *
+         * @default "acknowledge"
+         */
+        onHandlerError?: WebhookErrorMode | undefined;
+        /**
+         * Return the raw request body exactly as Razorpay sent it.
+         *
+         * The signature is computed over the raw bytes, so frameworks that
+         * parse JSON before the request reaches Better Auth must hand the
+         * original body back here. When omitted, the body is read from the
+         * request.
+         */
+        getRawBody?:
+          | ((
+              ctx: GenericEndpointContext,
+            ) =>
+              | string
+              | Uint8Array
+              | null
+              | undefined
+              | Promise<string | Uint8Array | null | undefined>)
+          | undefined;
+        /**
+         * Reject events whose `created_at` is further than this many
+         * seconds from now, so a captured delivery cannot be replayed later.
+         *
+         * Razorpay keeps the original `created_at` when it retries a
+         * delivery, and retries for up to 24 hours, so a window shorter
+         * than that rejects legitimate retries.
+         *
+         * @default undefined (no window)
+         */
+        toleranceSeconds?: number | undefined;
+        /**
+         * Razorpay account IDs (`acc_...`) whose events are processed.
+         *
+         * Events from any other account are rejected with a 403, or passed
+         * to `onForeignAccountEvent` when it is set, before they reach the
+         * ledger or any handler. Useful when several Razorpay accounts can
+         * reach the same endpoint.
+         *
+         * @default undefined (events from every account are processed)
+         */
+        allowedAccountIds?: string[] | undefined;
+        /**
+         * Receives verified events from accounts not listed in
+         * `allowedAccountIds`, instead of rejecting them. The event is then
+         * acknowledged. If the callback throws, the endpoint responds with
+         * a 500 so Razorpay retries.
+         */
+        onForeignAccountEvent?:
+          | ((
+              data: { event: RazorpayWebhookEvent },
+              ctx: GenericEndpointContext,
+            ) => Promise<void>)
+          | undefined;
+      }
+    | undefined;
+  /**
+   * Handlers for individual webhook events, keyed by event name.
+   *
+   * Covers every documented Razorpay event with a typed payload. A handler
+   * replaces the built-in one for its event; call `runDefault` from it to
+   * keep the built-in behaviour.
+   *
+   * @example
+   * ```ts
+   * webhookHandlers: {
+   *   "order.paid": async (event, ctx) => {
+   *     await fulfil(event.payload.order.entity.receipt);
+   *   },
+   *   "subscription.charged": async (event, ctx, { runDefault }) => {
+   *     await runDefault();
+   *     await sendReceipt(event.payload.payment?.entity);
+   *   },
+   * }
+   * ```
+   */
+  webhookHandlers?: RazorpayWebhookHandlers | undefined;
   /**
    * A callback to run after a Razorpay webhook event is received
    */
@@ -551,7 +2085,16 @@ export interface RazorpayOptions {
    */
   schema?:
     | InferOptionSchema<
-        typeof subscriptions & typeof user & typeof organization
+        typeof subscriptions &
+          typeof user &
+          typeof organization &
+          typeof webhookEvents &
+          typeof webhookDeadLetters &
+          typeof payments &
+          typeof invoices &
+          typeof refunds &
+          typeof disputes &
+          typeof usageRecords
       >
     | undefined;
 }
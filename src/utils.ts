@@ -1,10 +1,15 @@
 import { APIError } from "better-call";
 import type {
+  Entitlements,
   RazorpayOptions,
+  RazorpayPlan,
+  RazorpayPlanPeriod,
   RazorpaySubscriptionStatus,
   Subscription,
 } from "./types";
 
+export { hasFeature } from "./entitlements";
+
 /**
  * Create an APIError with the proper body format.
  * Replaces the monorepo-internal `APIError.from()` static method.
@@ -16,6 +21,40 @@ export function createAPIError(
   return new APIError(status, { body: { message, code: message } });
 }
 
+/**
+ * Error thrown when a user-supplied callback fails, so webhook failures
+ * caused by application code can be told apart from plugin errors.
+ */
+export class RazorpayCallbackError extends Error {
+  readonly callback: string;
+
+  constructor(callback: string, cause: unknown) {
+    super(
+      `${callback} callback failed: ${cause instanceof Error ? cause.message : String(cause)}`,
+      { cause },
+    );
+    this.name = "RazorpayCallbackError";
+    this.callback = callback;
+  }
+}
+
+/**
+ * Call an optional user callback, wrapping anything it throws in a
+ * {@link RazorpayCallbackError}.
+ */
+export async function invokeCallback<A extends unknown[]>(
+  name: string,
+  callback: ((...args: A) => unknown) | undefined,
+  ...args: A
+): Promise<void> {
+  if (!callback) return;
+  try {
+    await callback(...args);
+  } catch (error) {
+    throw new RazorpayCallbackError(name, error);
+  }
+}
+
 export async function getPlans(
   subscriptionOptions: RazorpayOptions["subscription"],
 ) {
@@ -89,10 +128,14 @@ export function isTerminal(sub: Subscription | { status: string }): boolean {
 
 /**
  * Checks if a subscription is in a state where it can be used
- * (active or authenticated)
+ * (active, authenticated or in a card-less trial)
  */
 export function isUsable(sub: Subscription | { status: string }): boolean {
-  return sub.status === "active" || sub.status === "authenticated";
+  return (
+    sub.status === "active" ||
+    sub.status === "authenticated" ||
+    sub.status === "trialing"
+  );
 }
 
 /**
@@ -105,6 +148,98 @@ export function hasPaymentIssue(
   return sub.status === "pending" || sub.status === "halted";
 }
 
+/**
+ * Checks if a `pending` subscription is still within the dunning grace
+ * period that follows its first failed payment
+ */
+export function isInGracePeriod(
+  sub: Pick<Subscription, "status" | "pastDueSince">,
+  gracePeriodDays: number | undefined,
+  now = new Date(),
+): boolean {
+  if (sub.status !== "pending" || !sub.pastDueSince || !gracePeriodDays) {
+    return false;
+  }
+  return (
+    now.getTime() - sub.pastDueSince.getTime() <
+    gracePeriodDays * 24 * 60 * 60 * 1000
+  );
+}
+
+/**
+ * Pick the subscription an action applies to from a reference's
+ * subscriptions (newest first). An explicit `subscriptionId` selects that
+ * row; otherwise the newest non-terminal subscription wins, falling back to
+ * the newest one. `groupId` narrows both.
+ */
+export function selectSubscription<S extends Subscription>(
+  subscriptions: S[],
+  target: { subscriptionId?: string; groupId?: string },
+): S | undefined {
+  const candidates = target.groupId
+    ? subscriptions.filter((s) => s.groupId === target.groupId)
+    : subscriptions;
+  if (target.subscriptionId) {
+    return candidates.find((s) => s.id === target.subscriptionId);
+  }
+  return candidates.find((s) => !isTerminal(s)) ?? candidates[0];
+}
+
+/**
+ * Work out what a reference is entitled to from its subscriptions (newest
+ * first). Within each plan group, the newest subscription that is usable,
+ * or `pending` within the dunning grace period, counts. The `limits` of
+ * their plans are merged as described on {@link Entitlements}.
+ */
+export function resolveEntitlements(
+  referenceId: string,
+  subscriptions: Subscription[],
+  plans: RazorpayPlan[],
+  gracePeriodDays?: number | undefined,
+  now = new Date(),
+): Entitlements {
+  const entitlements: Entitlements = {
+    referenceId,
+    plans: [],
+    subscriptions: [],
+    limits: {},
+  };
+  const groups = new Set<string>();
+  for (const subscription of subscriptions) {
+    const group = subscription.groupId ?? "";
+    if (
+      groups.has(group) ||
+      !(
+        isUsable(subscription) ||
+        isInGracePeriod(subscription, gracePeriodDays, now)
+      )
+    ) {
+      continue;
+    }
+    const plan = plans.find(
+      (p) => p.name.toLowerCase() === subscription.plan.toLowerCase(),
+    );
+    if (!plan) continue;
+    groups.add(group);
+    entitlements.plans.push(plan.name);
+    entitlements.subscriptions.push(subscription);
+
+    for (const [key, value] of Object.entries(plan.limits ?? {})) {
+      const current = entitlements.limits[key];
+      if (current === undefined) {
+        entitlements.limits[key] = value;
+      } else if (typeof current === "number" && typeof value === "number") {
+        entitlements.limits[key] = Math.max(current, value);
+      } else if (typeof current === "boolean" && typeof value === "boolean") {
+        entitlements.limits[key] = current || value;
+      } else if (Array.isArray(current) && Array.isArray(value)) {
+        entitlements.limits[key] = [...new Set([...current, ...value])];
+      }
+    }
+  }
+  return entitlements;
+}
+
 /**
  * Convert a Unix timestamp (seconds) to a Date, or return undefined
  */
@@ -136,3 +271,90 @@ export function toSubscriptionStatus(
   }
   return "created";
 }
+
+/**
+ * Advance a date by one billing cycle of a plan. Monthly and yearly cycles
+ * end on the last day of a shorter target month, e.g. 31 Jan is followed
+ * by 29 Feb.
+ */
+export function addBillingCycle(
+  date: Date,
+  period: RazorpayPlanPeriod,
+  interval = 1,
+): Date {
+  const next = new Date(date);
+  switch (period) {
+    case "daily":
+      next.setUTCDate(next.getUTCDate() + interval);
+      break;
+    case "weekly":
+      next.setUTCDate(next.getUTCDate() + 7 * interval);
+      break;
+    case "monthly":
+    case "yearly": {
+      const months = period === "monthly" ? interval : 12 * interval;
+      const day = next.getUTCDate();
+      next.setUTCDate(1);
+      next.setUTCMonth(next.getUTCMonth() + months);
+      const lastDay = new Date(
+        Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0),
+      ).getUTCDate();
+      next.setUTCDate(Math.min(day, lastDay));
+      break;
+    }
+  }
+  return next;
+}
+
+/**
+ * Approximate monthly price of a plan, used to compare plans with
+ * different billing periods.
+ */
+export function toMonthlyAmount(
+  amount: number,
+  period: RazorpayPlanPeriod,
+  interval = 1,
+): number {
+  const perPeriod = amount / interval;
+  switch (period) {
+    case "daily":
+      return (perPeriod * 365) / 12;
+    case "weekly":
+      return (perPeriod * 52) / 12;
+    case "monthly":
+      return perPeriod;
+    case "yearly":
+      return perPeriod / 12;
+  }
+}
+
+/**
+ * Estimate the prorated amount for switching plans partway through a
+ * billing cycle.
+ *
+ * When both plans bill on the same cycle, the price difference is charged
+ * (or credited) for the unused part of the cycle. When the cycle changes,
+ * a new cycle starts now: the target amount is charged, less a credit for
+ * the unused part of the current cycle. Amounts are rounded to the
+ * smallest currency unit.
+ */
+export function estimateProration(params: {
+  currentAmount: number;
+  targetAmount: number;
+  currentStart: Date;
+  currentEnd: Date;
+  sameCycle: boolean;
+  now?: Date | undefined;
+}): { remainingRatio: number; amount: number } {
+  const now = params.now ?? new Date();
+  const total = params.currentEnd.getTime() - params.currentStart.getTime();
+  const remaining = params.currentEnd.getTime() - now.getTime();
+  const remainingRatio =
+    total > 0 ? Math.min(Math.max(remaining / total, 0), 1) : 0;
+
+  const amount = params.sameCycle
+    ? (params.targetAmount - params.currentAmount) * remainingRatio
+    : params.targetAmount - params.currentAmount * remainingRatio;
+
+  return { remainingRatio, amount: Math.round(amount) };
+}
@@ -0,0 +1,591 @@
+import type { GenericEndpointContext } from "@better-auth/core";
+import * as crypto from "node:crypto";
+import { RAZORPAY_ERROR_CODES } from "./error-codes";
+import {
+  onDisputeClosed,
+  onDisputeCreated,
+  onDisputeLost,
+  onDisputeWon,
+  onInvoiceExpired,
+  onInvoicePaid,
+  onInvoicePartiallyPaid,
+  onPaymentAuthorized,
+  onPaymentCaptured,
+  onPaymentFailed,
+  onRefundCreated,
+  onRefundFailed,
+  onRefundProcessed,
+  onSubscriptionActivated,
+  onSubscriptionAuthenticated,
+  onSubscriptionCancelled,
+  onSubscriptionCharged,
+  onSubscriptionCompleted,
+  onSubscriptionHalted,
+  onSubscriptionPaused,
+  onSubscriptionPending,
+  onSubscriptionResumed,
+  onSubscriptionUpdated,
+} from "./hooks";
+import type {
+  RazorpayOptions,
+  RazorpayTypedWebhookEvent,
+  RazorpayWebhookEvent,
+  RazorpayWebhookEventName,
+  RazorpayWebhookHandler,
+  RazorpayWebhookSecret,
+  WebhookDeadLetter,
+  WebhookEventRecord,
+  WebhookEventStatus,
+} from "./types";
+import { createAPIError, invokeCallback, RazorpayCallbackError } from "./utils";
+
+/**
+ * Resolve the configured webhook secret option to a list of secrets.
+ * Empty entries are dropped.
+ */
+export async function resolveWebhookSecrets(
+  ctx: GenericEndpointContext,
+  secret: RazorpayWebhookSecret,
+): Promise<string[]> {
+  const resolved = typeof secret === "function" ? await secret(ctx) : secret;
+  const secrets = Array.isArray(resolved) ? resolved : [resolved];
+  return secrets.filter((s) => typeof s === "string" && s.length > 0);
+}
+
+/**
+ * Verify a webhook signature against each secret in constant time.
+ *
+ * Every secret is checked, so the response time does not reveal which
+ * one matched.
+ *
+ * @returns the index of the first matching secret, or `-1` if none match
+ */
+export function verifyWebhookSignature(
+  rawBody: string,
+  signature: string,
+  secrets: string[],
+): number {
+  const received = Buffer.from(signature);
+  let matched = -1;
+
+  secrets.forEach((secret, index) => {
+    const expected = Buffer.from(
+      crypto.createHmac("sha256", secret).update(rawBody).digest("hex"),
+    );
+    // timingSafeEqual throws on buffers of different lengths
+    const isValid =
+      received.length === expected.length &&
+      crypto.timingSafeEqual(received, expected);
+    if (isValid && matched === -1) {
+      matched = index;
+    }
+  });
+
+  return matched;
+}
+
+/**
+ * Razorpay signs with HMAC-SHA256 and sends the digest as hex.
+ */
+const SIGNATURE_PATTERN = /^[0-9a-f]{64}$/i;
+
+/**
+ * Whether a signature header has the shape of a Razorpay signature.
+ */
+export function isWellFormedSignature(signature: string): boolean {
+  return SIGNATURE_PATTERN.test(signature);
+}
+
+/**
+ * Read the raw webhook body, preferring the `webhook.getRawBody` option.
+ *
+ * There is deliberately no fallback to re-serializing a parsed body: the
+ * result would not match the bytes Razorpay signed.
+ *
+ * @returns the body, or `null` if it is not available
+ */
+export async function readWebhookRawBody(
+  ctx: GenericEndpointContext,
+  options: RazorpayOptions,
+): Promise<string | null> {
+  let rawBody: string | Uint8Array | null | undefined;
+  if (options.webhook?.getRawBody) {
+    rawBody = await options.webhook.getRawBody(ctx);
+  } else {
+    try {
+      rawBody = await ctx.request?.text();
+    } catch {
+      // The body stream was already consumed
+      rawBody = null;
+    }
+  }
+
+  if (rawBody instanceof Uint8Array) {
+    rawBody = new TextDecoder().decode(rawBody);
+  }
+  return rawBody ? rawBody : null;
+}
+
+/**
+ * Whether an event's `created_at` (Unix seconds) is within
+ * `toleranceSeconds` of now. Always true when no window is configured.
+ */
+export function isWithinTolerance(
+  createdAt: number,
+  toleranceSeconds: number | undefined,
+  now: number = Date.now(),
+): boolean {
+  if (toleranceSeconds === undefined) return true;
+  return Math.abs(now / 1000 - createdAt) <= toleranceSeconds;
+}
+
+/**
+ * Route a verified event to its built-in handler.
+ *
+ * @returns `false` when there is no built-in handler for the event type
+ * @internal
+ */
+async function dispatchBuiltInEvent(
+  ctx: GenericEndpointContext,
+  options: RazorpayOptions,
+  event: RazorpayWebhookEvent,
+): Promise<boolean> {
+  switch (event.event) {
+    case "subscription.authenticated":
+      await onSubscriptionAuthenticated(ctx, options, event);
+      return true;
+    case "subscription.activated":
+      await onSubscriptionActivated(ctx, options, event);
+      return true;
+    case "subscription.charged":
+      await onSubscriptionCharged(ctx, options, event);
+      return true;
+    case "subscription.pending":
+      await onSubscriptionPending(ctx, options, event);
+      return true;
+    case "subscription.halted":
+      await onSubscriptionHalted(ctx, options, event);
+      return true;
+    case "subscription.completed":
+      await onSubscriptionCompleted(ctx, options, event);
+      return true;
+    case "subscription.updated":
+      await onSubscriptionUpdated(ctx, options, event);
+      return true;
+    case "subscription.paused":
+      await onSubscriptionPaused(ctx, options, event);
+      return true;
+    case "subscription.resumed":
+      await onSubscriptionResumed(ctx, options, event);
+      return true;
+    case "subscription.cancelled":
+      await onSubscriptionCancelled(ctx, options, event);
+      return true;
+    case "payment.authorized":
+      await onPaymentAuthorized(ctx, options, event);
+      return true;
+    case "payment.captured":
+      await onPaymentCaptured(ctx, options, event);
+      return true;
+    case "payment.failed":
+      await onPaymentFailed(ctx, options, event);
+      return true;
+    case "invoice.paid":
+      await onInvoicePaid(ctx, options, event);
+      return true;
+    case "invoice.partially_paid":
+      await onInvoicePartiallyPaid(ctx, options, event);
+      return true;
+    case "invoice.expired":
+      await onInvoiceExpired(ctx, options, event);
+      return true;
+    case "refund.created":
+      await onRefundCreated(ctx, options, event);
+      return true;
+    case "refund.processed":
+      await onRefundProcessed(ctx, options, event);
+      return true;
+    case "refund.failed":
+      await onRefundFailed(ctx, options, event);
+      return true;
+    case "payment.dispute.created":
+      await onDisputeCreated(ctx, options, event);
+      return true;
+    case "payment.dispute.won":
+      await onDisputeWon(ctx, options, event);
+      return true;
+    case "payment.dispute.lost":
+      await onDisputeLost(ctx, options, event);
+      return true;
+    case "payment.dispute.closed":
+      await onDisputeClosed(ctx, options, event);
+      return true;
+    default:
+      ctx.context.logger.info(
+        `Razorpay webhook: Unhandled event type: ${event.event}`,
+      );
+      return false;
+  }
+}
+
+/**
+ * Route a verified event to the handler from `webhookHandlers`, or to the
+ * built-in handler when none is configured.
+ *
+ * Errors from the built-in handler are rethrown as they are when a custom
+ * handler calls `runDefault`, so they are not reported as callback errors.
+ *
+ * @returns `false` when there is no handler for the event type
+ * @internal
+ */
+export async function dispatchWebhookEvent(
+  ctx: GenericEndpointContext,
+  options: RazorpayOptions,
+  event: RazorpayWebhookEvent,
+): Promise<boolean> {
+  const handler =
+    options.webhookHandlers?.[event.event as RazorpayWebhookEventName];
+  if (!handler) {
+    return await dispatchBuiltInEvent(ctx, options, event);
+  }
+
+  let defaultError: unknown;
+  const runDefault = async () => {
+    try {
+      return await dispatchBuiltInEvent(ctx, options, event);
+    } catch (error) {
+      defaultError = error;
+      throw error;
+    }
+  };
+
+  try {
+    await invokeCallback(
+      `webhookHandlers["${event.event}"]`,
+      handler as RazorpayWebhookHandler<RazorpayWebhookEventName>,
+      event as RazorpayTypedWebhookEvent,
+      ctx,
+      { runDefault },
+    );
+  } catch (error) {
+    if (
+      defaultError &&
+      error instanceof RazorpayCallbackError &&
+      error.cause === defaultError
+    ) {
+      throw defaultError;
+    }
+    throw error;
+  }
+  return true;
+}
+
+/**
+ * How long a `processing` claim is honoured before a redelivery may take
+ * the event over, e.g. after the process handling it crashed.
+ * @internal
+ */
+const STALE_CLAIM_MS = 10 * 60 * 1000;
+
+/**
+ * Claim an event for processing by inserting its ledger entry as
+ * `processing` before any handler runs. The unique `eventId` makes a
+ * concurrent delivery's insert fail, so only one delivery runs the
+ * handlers. A `failed` or stale `processing` entry is taken over with a
+ * conditional update.
+ *
+ * @returns the claimed entry and whether it was taken over from an earlier
+ * attempt, or `null` when the event is a duplicate
+ * @internal
+ */
+async function claimWebhookEvent(
+  ctx: GenericEndpointContext,
+  eventId: string,
+  event: RazorpayWebhookEvent,
+): Promise<{ record: WebhookEventRecord; retry: boolean } | null> {
+  const findEntry = () =>
+    ctx.context.adapter.findOne<WebhookEventRecord>({
+      model: "razorpayWebhookEvent",
+      where: [{ field: "eventId", value: eventId }],
+    });
+
+  // Adapters that don't enforce unique fields accept a second insert, so
+  // look the entry up first as well
+  let existing = await findEntry();
+  if (!existing) {
+    const now = new Date();
+    try {
+      const record = await ctx.context.adapter.create<WebhookEventRecord>({
+        model: "razorpayWebhookEvent",
+        data: {
+          eventId,
+          event: event.event,
+          accountId: event.account_id,
+          status: "processing",
+          receivedAt: now,
+          attemptedAt: now,
+        },
+      });
+      return { record, retry: false };
+    } catch (error) {
+      // A concurrent delivery claimed the event first
+      existing = await findEntry();
+      if (!existing) throw error;
+    }
+  }
+
+  const stale =
+    existing.status === "processing" &&
+    (!existing.attemptedAt ||
+      Date.now() - existing.attemptedAt.getTime() > STALE_CLAIM_MS);
+  if (existing.status !== "failed" && !stale) {
+    return null;
+  }
+
+  const record = await ctx.context.adapter.update<WebhookEventRecord>({
+    model: "razorpayWebhookEvent",
+    update: { status: "processing", attemptedAt: new Date() },
+    where: [
+      { field: "id", value: existing.id },
+      { field: "status", value: existing.status },
+      ...(existing.attemptedAt
+        ? [{ field: "attemptedAt", value: existing.attemptedAt }]
+        : []),
+    ],
+  });
+  // Another delivery took the entry over in between
+  return record ? { record, retry: true } : null;
+}
+
+/**
+ * Write the processing outcome of a claimed event to the ledger.
+ * @internal
+ */
+async function recordWebhookEvent(
+  ctx: GenericEndpointContext,
+  record: WebhookEventRecord,
+  status: WebhookEventStatus,
+  error?: string,
+) {
+  await ctx.context.adapter.update({
+    model: "razorpayWebhookEvent",
+    update: {
+      status,
+      error: error ?? null,
+      processedAt: new Date(),
+    },
+    where: [{ field: "id", value: record.id }],
+  });
+}
+
+/**
+ * The request a webhook event was delivered in, kept for dead letters.
+ */
+export interface WebhookDelivery {
+  rawBody: string;
+  headers?: Record<string, string> | undefined;
+}
+
+/**
+ * Store a failed event in the dead-letter table, or count another attempt
+ * on its pending entry. Best effort: a failure here is only logged.
+ * @internal
+ */
+async function recordDeadLetter(
+  ctx: GenericEndpointContext,
+  event: RazorpayWebhookEvent,
+  eventId: string | undefined,
+  error: string,
+  delivery: WebhookDelivery | undefined,
+) {
+  try {
+    const existing = eventId
+      ? await ctx.context.adapter.findOne<WebhookDeadLetter>({
+          model: "razorpayWebhookDeadLetter",
+          where: [
+            { field: "eventId", value: eventId },
+            { field: "status", value: "pending" },
+          ],
+        })
+      : null;
+
+    if (existing) {
+      await ctx.context.adapter.update({
+        model: "razorpayWebhookDeadLetter",
+        update: {
+          error,
+          attempts: existing.attempts + 1,
+          lastAttemptAt: new Date(),
+        },
+        where: [{ field: "id", value: existing.id }],
+      });
+      return;
+    }
+
+    await ctx.context.adapter.create({
+      model: "razorpayWebhookDeadLetter",
+      data: {
+        eventId,
+        event: event.event,
+        payload: delivery?.rawBody ?? JSON.stringify(event),
+        headers: delivery?.headers
+          ? JSON.stringify(delivery.headers)
+          : undefined,
+        error,
+        attempts: 1,
+        status: "pending",
+        lastAttemptAt: new Date(),
+        createdAt: new Date(),
+      },
+    });
+  } catch (e: any) {
+    ctx.context.logger.error(
+      `Razorpay webhook: failed to store dead letter for ${event.event}: ${e.message}`,
+    );
+  }
+}
+
+/**
+ * Mark the pending dead letter of an event as replayed.
+ * @internal
+ */
+async function resolveDeadLetter(ctx: GenericEndpointContext, eventId: string) {
+  const deadLetter = await ctx.context.adapter.findOne<WebhookDeadLetter>({
+    model: "razorpayWebhookDeadLetter",
+    where: [
+      { field: "eventId", value: eventId },
+      { field: "status", value: "pending" },
+    ],
+  });
+  if (!deadLetter) return;
+
+  await ctx.context.adapter.update({
+    model: "razorpayWebhookDeadLetter",
+    update: { status: "replayed", replayedAt: new Date() },
+    where: [{ field: "id", value: deadLetter.id }],
+  });
+}
+
+/**
+ * Run an event through the ledger and its handler. Failures are recorded
+ * in the ledger and rethrown.
+ * @internal
+ */
+async function applyWebhookEvent(
+  ctx: GenericEndpointContext,
+  options: RazorpayOptions,
+  event: RazorpayWebhookEvent,
+  eventId: string | undefined,
+): Promise<{ duplicate: boolean }> {
+  const claim = eventId ? await claimWebhookEvent(ctx, eventId, event) : null;
+  if (eventId && !claim) {
+    ctx.context.logger.info(
+      `Razorpay webhook: duplicate event ${eventId} (${event.event}) acknowledged`,
+    );
+    return { duplicate: true };
+  }
+
+  let handled: boolean;
+  try {
+    // Call optional generic event handler
+    await invokeCallback("onEvent", options.onEvent, event);
+    handled = await dispatchWebhookEvent(ctx, options, event);
+  } catch (error: any) {
+    if (claim) {
+      await recordWebhookEvent(ctx, claim.record, "failed", error?.message);
+    }
+    throw error;
+  }
+
+  if (claim) {
+    await recordWebhookEvent(
+      ctx,
+      claim.record,
+      handled ? "processed" : "ignored",
+    );
+    // A redelivery succeeded after an earlier failure
+    if (claim.retry) {
+      await resolveDeadLetter(ctx, eventId!);
+    }
+  }
+
+  return { duplicate: false };
+}
+
+/**
+ * Process a verified webhook event exactly once.
+ *
+ * The event is claimed in the ledger before it is dispatched. Events
+ * already `processed` or `ignored`, or being processed by another
+ * delivery, are acknowledged without being dispatched again. Events
+ * without an ID are always dispatched.
+ *
+ * Failures are recorded as `failed` and stored as dead letters, then
+ * acknowledged or surfaced as a 500 according to `webhook.onHandlerError`.
+ */
+export async function processWebhookEvent(
+  ctx: GenericEndpointContext,
+  options: RazorpayOptions,
+  event: RazorpayWebhookEvent,
+  eventId: string | undefined,
+  delivery?: WebhookDelivery | undefined,
+): Promise<{ received: true; duplicate?: true }> {
+  try {
+    const { duplicate } = await applyWebhookEvent(ctx, options, event, eventId);
+    return duplicate ? { received: true, duplicate: true } : { received: true };
+  } catch (error: any) {
+    await recordDeadLetter(ctx, event, eventId, error?.message, delivery);
+
+    const isCallbackError = error instanceof RazorpayCallbackError;
+    if (options.webhook?.onHandlerError === "retry") {
+      throw createAPIError(
+        "INTERNAL_SERVER_ERROR",
+        isCallbackError
+          ? RAZORPAY_ERROR_CODES.WEBHOOK_CALLBACK_FAILED
+          : RAZORPAY_ERROR_CODES.WEBHOOK_HANDLER_FAILED,
+      );
+    }
+
+    ctx.context.logger.error(
+      `Razorpay webhook: ${event.event} failed${isCallbackError ? " in a callback" : ""} and was acknowledged: ${error?.message}`,
+    );
+    return { received: true };
+  }
+}
+
+/**
+ * Process a dead-lettered event again, without signature verification.
+ *
+ * @returns the dead letter, marked `replayed` on success or with the
+ * attempt counted on failure
+ */
+export async function replayDeadLetter(
+  ctx: GenericEndpointContext,
+  options: RazorpayOptions,
+  deadLetter: WebhookDeadLetter,
+): Promise<WebhookDeadLetter> {
+  try {
+    const event = JSON.parse(deadLetter.payload) as RazorpayWebhookEvent;
+    await applyWebhookEvent(ctx, options, event, deadLetter.eventId);
+  } catch (error: any) {
+    const update = {
+      error: error?.message,
+      attempts: deadLetter.attempts + 1,
+      lastAttemptAt: new Date(),
+    };
+    const updated = await ctx.context.adapter.update<WebhookDeadLetter>({
+      model: "razorpayWebhookDeadLetter",
+      update,
+      where: [{ field: "id", value: deadLetter.id }],
+    });
+    return updated || { ...deadLetter, ...update };
+  }
+
+  const update = { status: "replayed" as const, replayedAt: new Date() };
+  const updated = await ctx.context.adapter.update<WebhookDeadLetter>({
+    model: "razorpayWebhookDeadLetter",
+    update,
+    where: [{ field: "id", value: deadLetter.id }],
+  });
+  return updated || { ...deadLetter, ...update };
+}
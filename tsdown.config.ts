@@ -3,7 +3,7 @@ import { defineConfig } from "tsdown";
 export default defineConfig({
   dts: true,
   format: ["esm"],
-  entry: ["./src/index.ts", "./src/client.ts"],
+  entry: ["./src/index.ts", "./src/client.ts", "./src/testing.ts"],
   external: ["better-auth", "better-call", "@better-fetch/fetch", "razorpay"],
   sourcemap: true,
 });
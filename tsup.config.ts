@@ -1,7 +1,12 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-  entry: ["./src/index.ts", "./src/client.ts", "./src/react.ts"],
+  entry: [
+    "./src/index.ts",
+    "./src/client.ts",
+    "./src/react.ts",
+    "./src/testing.ts",
+  ],
   format: ["esm"],
   dts: true,
   clean: true,